@@ -9,7 +9,7 @@ export default [
     languageOptions: {
       parser: tsparser,
       parserOptions: { 
-        project: ['./tsconfig.json'],
+        project: ['./tsconfig.json', './tsconfig.test.json'],
         ecmaVersion: 'latest',
         sourceType: 'module'
       },
@@ -0,0 +1,238 @@
+import { encodeFunctionData, decodeFunctionResult, formatUnits, maxUint256, Address } from 'viem'
+import { Multicall3Service, ERC20_ABI } from './multicall3-service.js'
+import type { PriceProvider } from './price-providers.js'
+import type { TokenMetadataLookup } from './token-metadata-resolver.js'
+import {
+  PositionAdapter,
+  PositionQuery,
+  DefiPosition,
+  createPosition,
+  valuePositionAssets,
+  DEFAULT_HEALTH_FACTOR_THRESHOLD
+} from './positions.js'
+
+/**
+ * ABI Pool Aave v3 (нужные функции)
+ */
+export const AAVE_V3_POOL_ABI = [
+  {
+    'inputs': [
+      { 'internalType': 'address', 'name': 'user', 'type': 'address' }
+    ],
+    'name': 'getUserAccountData',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': 'totalCollateralBase', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'totalDebtBase', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'availableBorrowsBase', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'currentLiquidationThreshold', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'ltv', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'healthFactor', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [],
+    'name': 'getReservesList',
+    'outputs': [
+      { 'internalType': 'address[]', 'name': '', 'type': 'address[]' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [
+      { 'internalType': 'address', 'name': 'asset', 'type': 'address' }
+    ],
+    'name': 'getReserveData',
+    'outputs': [
+      {
+        'components': [
+          { 'internalType': 'uint256', 'name': 'configuration', 'type': 'uint256' },
+          { 'internalType': 'uint128', 'name': 'liquidityIndex', 'type': 'uint128' },
+          { 'internalType': 'uint128', 'name': 'currentLiquidityRate', 'type': 'uint128' },
+          { 'internalType': 'uint128', 'name': 'variableBorrowIndex', 'type': 'uint128' },
+          { 'internalType': 'uint128', 'name': 'currentVariableBorrowRate', 'type': 'uint128' },
+          { 'internalType': 'uint128', 'name': 'currentStableBorrowRate', 'type': 'uint128' },
+          { 'internalType': 'uint40', 'name': 'lastUpdateTimestamp', 'type': 'uint40' },
+          { 'internalType': 'uint16', 'name': 'id', 'type': 'uint16' },
+          { 'internalType': 'address', 'name': 'aTokenAddress', 'type': 'address' },
+          { 'internalType': 'address', 'name': 'stableDebtTokenAddress', 'type': 'address' },
+          { 'internalType': 'address', 'name': 'variableDebtTokenAddress', 'type': 'address' },
+          { 'internalType': 'address', 'name': 'interestRateStrategyAddress', 'type': 'address' },
+          { 'internalType': 'uint128', 'name': 'accruedToTreasury', 'type': 'uint128' },
+          { 'internalType': 'uint128', 'name': 'unbacked', 'type': 'uint128' },
+          { 'internalType': 'uint128', 'name': 'isolationModeTotalDebt', 'type': 'uint128' }
+        ],
+        'internalType': 'struct DataTypes.ReserveData',
+        'name': '',
+        'type': 'tuple'
+      }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * Знаков после запятой у сумм в базовой валюте рынка (USD с 8 знаками)
+ */
+const BASE_CURRENCY_DECIMALS = 8
+
+/**
+ * Резерв рынка и его токены
+ */
+interface AaveReserve {
+  asset: Address
+  aToken: Address
+  stableDebtToken: Address
+  variableDebtToken: Address
+}
+
+/**
+ * Функция получения адреса Pool Aave v3 сети
+ */
+export type AavePoolLookup = (chainId: number) => string | undefined
+
+/**
+ * Адаптер займов Aave v3
+ *
+ * Адрес Pool задается в реестре сетей (поле aaveV3Pool). Итоги счета
+ * (залог, долг, health factor) читаются через getUserAccountData, состав -
+ * по балансам aToken и долговых токенов всех резервов рынка. Список резервов
+ * читается один раз за запуск. Все чтения идут через
+ * Multicall3Service.executeCalls. Позиция с health factor ниже порога
+ * помечается как рискованная.
+ */
+export class AaveV3Adapter implements PositionAdapter {
+  readonly name = 'Aave V3'
+  private readonly multicallService: Multicall3Service
+  private readonly resolveMetadata: TokenMetadataLookup
+  private readonly priceProvider: PriceProvider
+  private readonly getPool: AavePoolLookup
+  private readonly healthFactorThreshold: number
+  private reserves = new Map<string, AaveReserve[]>() // Резервы по chainId:pool
+
+  constructor (
+    multicallService: Multicall3Service,
+    resolveMetadata: TokenMetadataLookup,
+    priceProvider: PriceProvider,
+    getPool: AavePoolLookup,
+    healthFactorThreshold: number = DEFAULT_HEALTH_FACTOR_THRESHOLD
+  ) {
+    this.multicallService = multicallService
+    this.resolveMetadata = resolveMetadata
+    this.priceProvider = priceProvider
+    this.getPool = getPool
+    this.healthFactorThreshold = healthFactorThreshold
+  }
+
+  /**
+   * Получить резервы рынка (из памяти или из контракта)
+   */
+  private async getReserves (chainId: number, pool: Address): Promise<AaveReserve[]> {
+    const key = `${chainId}:${pool.toLowerCase()}`
+    const cached = this.reserves.get(key)
+    if (cached) {
+      return cached
+    }
+
+    const [listResult] = await this.multicallService.executeCalls(chainId, [
+      { target: pool, allowFailure: true, callData: encodeFunctionData({ abi: AAVE_V3_POOL_ABI, functionName: 'getReservesList' }) }
+    ])
+    const assets = this.multicallService.decodeResult(listResult, data => decodeFunctionResult({ abi: AAVE_V3_POOL_ABI, functionName: 'getReservesList', data }))
+    if (!assets) {
+      throw new Error(`Pool ${pool} не вернул список резервов`)
+    }
+
+    const dataResults = await this.multicallService.executeCallsInBatches(chainId, assets.map(asset => ({
+      target: pool,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: AAVE_V3_POOL_ABI, functionName: 'getReserveData', args: [asset] })
+    })))
+
+    const reserves = assets.flatMap((asset, index) => {
+      const data = this.multicallService.decodeResult(dataResults[index], returnData => decodeFunctionResult({ abi: AAVE_V3_POOL_ABI, functionName: 'getReserveData', data: returnData }))
+      return data
+        ? [{ asset, aToken: data.aTokenAddress, stableDebtToken: data.stableDebtTokenAddress, variableDebtToken: data.variableDebtTokenAddress }]
+        : []
+    })
+
+    this.reserves.set(key, reserves)
+    return reserves
+  }
+
+  async getPositions (query: PositionQuery): Promise<DefiPosition[]> {
+    const pool = this.getPool(query.chainId) as Address | undefined
+    if (!pool) {
+      return []
+    }
+
+    const { chainId, walletAddress, blockNumber } = query
+    const [accountResult] = await this.multicallService.executeCalls(chainId, [
+      { target: pool, allowFailure: true, callData: encodeFunctionData({ abi: AAVE_V3_POOL_ABI, functionName: 'getUserAccountData', args: [walletAddress] }) }
+    ], blockNumber)
+    const account = this.multicallService.decodeResult(accountResult, data => decodeFunctionResult({ abi: AAVE_V3_POOL_ABI, functionName: 'getUserAccountData', data }))
+    if (!account) {
+      throw new Error(`Pool ${pool} не ответил на getUserAccountData`)
+    }
+
+    const [totalCollateralBase, totalDebtBase, , , , healthFactorRaw] = account
+    if (totalCollateralBase === 0n && totalDebtBase === 0n) {
+      return []
+    }
+
+    // Балансы aToken и долговых токенов всех резервов
+    const reserves = await this.getReserves(chainId, pool)
+    const balanceResults = await this.multicallService.executeCallsInBatches(chainId, reserves.flatMap(reserve => [reserve.aToken, reserve.stableDebtToken, reserve.variableDebtToken].map(token => ({
+      target: token,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: ERC20_ABI, functionName: 'balanceOf', args: [walletAddress] })
+    }))), blockNumber)
+    const balanceAt = (index: number): bigint =>
+      this.multicallService.decodeResult(balanceResults[index], data => decodeFunctionResult({ abi: ERC20_ABI, functionName: 'balanceOf', data })) ?? 0n
+
+    const supplied: Array<{ reserve: AaveReserve; amount: bigint }> = []
+    const borrowed: Array<{ reserve: AaveReserve; amount: bigint }> = []
+    const receiptTokens: string[] = []
+    reserves.forEach((reserve, index) => {
+      const [aBalance, stableDebt, variableDebt] = [balanceAt(index * 3), balanceAt(index * 3 + 1), balanceAt(index * 3 + 2)]
+      if (aBalance > 0n) {
+        supplied.push({ reserve, amount: aBalance })
+        receiptTokens.push(reserve.aToken)
+      }
+      if (stableDebt + variableDebt > 0n) {
+        borrowed.push({ reserve, amount: stableDebt + variableDebt })
+        receiptTokens.push(...(stableDebt > 0n ? [reserve.stableDebtToken] : []), ...(variableDebt > 0n ? [reserve.variableDebtToken] : []))
+      }
+    })
+
+    const metadata = await this.resolveMetadata(chainId, [...new Set([...supplied, ...borrowed].map(({ reserve }) => reserve.asset.toLowerCase()))])
+    const toAssets = (entries: typeof supplied): Parameters<typeof valuePositionAssets>[2] => entries.flatMap(({ reserve, amount }) => {
+      const assetMetadata = metadata.get(reserve.asset.toLowerCase())
+      return assetMetadata ? [{ address: reserve.asset, metadata: assetMetadata, amount }] : []
+    })
+
+    // Без долга контракт возвращает максимальный uint256
+    const healthFactor = totalDebtBase === 0n || healthFactorRaw === maxUint256 ? null : parseFloat(formatUnits(healthFactorRaw, 18))
+    const formatBase = (value: bigint): string => `$${parseFloat(formatUnits(value, BASE_CURRENCY_DECIMALS)).toFixed(2)}`
+
+    return [createPosition({
+      protocol: this.name,
+      type: 'lending',
+      name: 'Займы и залоги',
+      contractAddress: pool,
+      receiptTokens,
+      assets: await valuePositionAssets(this.priceProvider, chainId, toAssets(supplied)),
+      debts: await valuePositionAssets(this.priceProvider, chainId, toAssets(borrowed)),
+      healthFactor,
+      atRisk: healthFactor !== null && healthFactor < this.healthFactorThreshold,
+      details: {
+        'Залог (оракул Aave)': formatBase(totalCollateralBase),
+        'Долг (оракул Aave)': formatBase(totalDebtBase),
+        'Чистая стоимость (оракул Aave)': formatBase(totalCollateralBase - totalDebtBase),
+        'Health factor': healthFactor !== null ? healthFactor.toFixed(4) : '∞'
+      }
+    })]
+  }
+}
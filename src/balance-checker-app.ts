@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { BalanceChecker } from './balance-checker.js'
+import { BalanceChecker, BalanceCheckConfig } from './balance-checker.js'
 import { ExcelExporter } from './excel-exporter.js'
 import {
   getAllWalletAddresses,
@@ -17,8 +17,8 @@ export class BalanceCheckerApp {
   private excelExporter: ExcelExporter
   private isShuttingDown = false
 
-  constructor () {
-    this.balanceChecker = new BalanceChecker()
+  constructor (offline: boolean = false) {
+    this.balanceChecker = new BalanceChecker(offline)
     this.excelExporter = new ExcelExporter()
     this.setupGracefulShutdown()
   }
@@ -36,8 +36,11 @@ export class BalanceCheckerApp {
       message: 'Выберите действие:',
       choices: [
         { title: '🔍 Проверить балансы кошельков', value: 'check_wallets' },
+        { title: '🔁 Повторить ошибки запуска', value: 'retry_failures' },
         { title: '📊 Проверить доступность сетей', value: 'check_networks' },
         { title: '📄 Экспортировать в Excel (тестовые данные)', value: 'export_test' },
+        { title: '🪙 Снимки списков токенов', value: 'token_snapshots' },
+        { title: `🔌 Офлайн режим: ${this.balanceChecker.isOfflineMode() ? 'вкл' : 'выкл'}`, value: 'toggle_offline' },
         { title: '❌ Выход', value: 'exit' }
       ]
     })
@@ -58,12 +61,24 @@ export class BalanceCheckerApp {
     case 'check_wallets':
       await this.checkWalletsBalances()
       break
+    case 'retry_failures':
+      await this.retryFailedNetworks()
+      break
     case 'check_networks':
       await this.checkNetworkAvailability()
       break
     case 'export_test':
       await this.exportTestData()
       break
+    case 'token_snapshots':
+      await this.manageTokenSnapshots()
+      break
+    case 'toggle_offline':
+      this.balanceChecker.setOfflineMode(!this.balanceChecker.isOfflineMode())
+      console.log(this.balanceChecker.isOfflineMode()
+        ? '🔌 Офлайн режим включен: списки токенов берутся только из кэша и снимков'
+        : '🌐 Офлайн режим выключен')
+      break
     case 'exit':
       console.log('👋 До свидания!')
       return
@@ -135,10 +150,22 @@ export class BalanceCheckerApp {
         hint: '- Пробел для выбора, Enter для подтверждения'
       })
 
+      const snapshot = await this.promptSnapshotConfig(chainIds)
+      if (!snapshot) return
+
+      const { discoverTokens } = await prompts({
+        type: 'confirm',
+        name: 'discoverTokens',
+        message: 'Искать токены вне списков по логам Transfer? (первый запуск для кошелька дольше)',
+        initial: false
+      })
+
       const results = await this.balanceChecker.checkMultipleWallets(
         walletAddresses,
         {
-          chainIds: chainIds.length > 0 ? chainIds : undefined
+          chainIds: chainIds.length > 0 ? chainIds : undefined,
+          ...snapshot,
+          discoverTokens: Boolean(discoverTokens)
         }
       )
 
@@ -202,10 +229,22 @@ export class BalanceCheckerApp {
         hint: '- Пробел для выбора, Enter для подтверждения'
       })
 
+      const snapshot = await this.promptSnapshotConfig(chainIds)
+      if (!snapshot) return
+
+      const { discoverTokens } = await prompts({
+        type: 'confirm',
+        name: 'discoverTokens',
+        message: 'Искать токены вне списков по логам Transfer? (первый запуск для кошелька дольше)',
+        initial: false
+      })
+
       const results = await this.balanceChecker.checkMultipleWallets(
         selectedWallets,
         {
-          chainIds: chainIds.length > 0 ? chainIds : undefined
+          chainIds: chainIds.length > 0 ? chainIds : undefined,
+          ...snapshot,
+          discoverTokens: Boolean(discoverTokens)
         }
       )
 
@@ -229,22 +268,137 @@ export class BalanceCheckerApp {
     }
   }
 
+  /**
+   * Повторить проверку упавших сетей сохраненного запуска
+   *
+   * Проверяются только пары кошелек/сеть с ошибками, свежие результаты
+   * объединяются с результатами выбранного запуска.
+   */
+  private async retryFailedNetworks (): Promise<void> {
+    try {
+      const runs = this.balanceChecker.listRuns().filter(run => run.failureCount > 0)
+      if (runs.length === 0) {
+        console.log('✅ Нет сохраненных запусков с ошибками')
+        return
+      }
+
+      const { runId } = await prompts({
+        type: 'select',
+        name: 'runId',
+        message: 'Выберите запуск:',
+        choices: runs.slice(0, 20).map(run => ({
+          title: `${run.runId} · ${new Date(run.createdAt).toLocaleString('ru-RU')} · кошельков: ${run.walletCount} · ошибок: ${run.failureCount}${run.retryOf ? ` · повтор ${run.retryOf}` : ''}`,
+          value: run.runId
+        }))
+      })
+
+      if (!runId) return
+
+      const results = await this.balanceChecker.retryFailures(runId)
+
+      // Выводим результаты
+      console.log(this.balanceChecker.formatMultiWalletResults(results))
+
+      // Предлагаем экспорт в Excel
+      const { exportToExcel } = await prompts({
+        type: 'confirm',
+        name: 'exportToExcel',
+        message: 'Экспортировать объединенные результаты в Excel?',
+        initial: true
+      })
+
+      if (exportToExcel) {
+        await this.exportMultiWalletResultsToExcel(results)
+      }
+
+    } catch (error) {
+      console.error('❌ Ошибка при повторе ошибок запуска:', error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+  }
+
+  /**
+   * Выбрать момент снимка: текущие балансы, на дату или на блок
+   *
+   * Блок можно указать только при проверке одной сети, так как номера
+   * блоков у разных сетей не связаны.
+   */
+  private async promptSnapshotConfig (chainIds: number[]): Promise<Pick<BalanceCheckConfig, 'blockNumber' | 'asOfTimestamp'> | null> {
+    const choices = [
+      { title: '⏱️ Текущие балансы', value: 'latest' },
+      { title: '📅 Балансы на дату', value: 'date' }
+    ]
+    if (chainIds.length === 1) {
+      choices.push({ title: '🧱 Балансы на блок', value: 'block' })
+    }
+
+    const { mode } = await prompts({
+      type: 'select',
+      name: 'mode',
+      message: 'Момент снимка балансов:',
+      choices
+    })
+
+    if (!mode) return null
+
+    if (mode === 'date') {
+      const { date } = await prompts({
+        type: 'date',
+        name: 'date',
+        message: 'Дата и время снимка:',
+        mask: 'YYYY-MM-DD HH:mm',
+        validate: (value: Date) => value.getTime() <= Date.now() || 'Дата не может быть в будущем'
+      })
+      if (!date) return null
+      return { asOfTimestamp: Math.floor((date as Date).getTime() / 1000) }
+    }
+
+    if (mode === 'block') {
+      const { blockNumber } = await prompts({
+        type: 'text',
+        name: 'blockNumber',
+        message: 'Номер блока:',
+        validate: (value: string) => /^\d+$/.test(value.trim()) || 'Введите целое число'
+      })
+      if (!blockNumber) return null
+      return { blockNumber: BigInt(blockNumber.trim()) }
+    }
+
+    return {}
+  }
+
   /**
    * Проверить доступность сетей
    */
   private async checkNetworkAvailability (): Promise<void> {
     try {
-      console.log('\n🌐 Проверяем доступность сетей...')
+      console.log('\n🌐 Проверяем доступность сетей (все RPC endpoints параллельно)...')
 
+      const startedAt = Date.now()
       const results = await this.balanceChecker.checkNetworkAvailability()
 
       console.log('\n📊 Статус сетей:')
-      console.log('=' .repeat(50))
+      console.log(this.balanceChecker.formatNetworkReportForConsole(results))
+      console.log(`⏱️ Проверка заняла ${((Date.now() - startedAt) / 1000).toFixed(1)}с`)
+
+      const { exportFormat } = await prompts({
+        type: 'select',
+        name: 'exportFormat',
+        message: 'Экспортировать отчет?',
+        choices: [
+          { title: '❌ Не экспортировать', value: 'none' },
+          { title: '📄 JSON', value: 'json' },
+          { title: '📊 Excel', value: 'excel' },
+          { title: '📄 + 📊 JSON и Excel', value: 'both' }
+        ]
+      })
 
-      for (const result of results) {
-        const status = result.isAvailable ? '✅' : '❌'
-        const rpcInfo = result.workingRPC ? ` (${result.workingRPC})` : ''
-        console.log(`${status} ${result.name} (${result.chainId})${rpcInfo}`)
+      if (exportFormat === 'json' || exportFormat === 'both') {
+        this.balanceChecker.exportNetworkReportToJSON(results)
+      }
+
+      if (exportFormat === 'excel' || exportFormat === 'both') {
+        const excelFilename = await this.excelExporter.exportNetworkReport(results)
+        console.log(`✅ Excel файл создан: ${excelFilename}`)
       }
 
     } catch (error) {
@@ -252,6 +406,51 @@ export class BalanceCheckerApp {
     }
   }
 
+  /**
+   * Экспорт и импорт снимков списков токенов
+   */
+  private async manageTokenSnapshots (): Promise<void> {
+    try {
+      const { snapshotAction } = await prompts({
+        type: 'select',
+        name: 'snapshotAction',
+        message: 'Снимки списков токенов:',
+        choices: [
+          { title: '📤 Экспортировать снимок', value: 'export' },
+          { title: '📥 Импортировать снимок в кэш', value: 'import' },
+          { title: '🔙 Назад', value: 'back' }
+        ]
+      })
+
+      if (!snapshotAction || snapshotAction === 'back') {
+        return
+      }
+
+      const { filePath } = await prompts({
+        type: 'text',
+        name: 'filePath',
+        message: 'Путь к файлу снимка:',
+        initial: snapshotAction === 'export'
+          ? `token_snapshot_${new Date().toISOString().split('T')[0]}.json`
+          : 'tokens-snapshot.json'
+      })
+
+      if (!filePath) {
+        return
+      }
+
+      if (snapshotAction === 'export') {
+        const { chains, tokens } = await this.balanceChecker.exportTokenSnapshot(filePath)
+        console.log(`✅ Снимок сохранен в ${filePath}: ${chains} сетей, ${tokens} токенов`)
+      } else {
+        const { chains, tokens, createdAt } = this.balanceChecker.importTokenSnapshot(filePath)
+        console.log(`✅ Импортировано ${chains} сетей, ${tokens} токенов (снимок от ${new Date(createdAt).toLocaleString('ru-RU')})`)
+      }
+    } catch (error) {
+      console.error('❌ Ошибка при работе со снимком токенов:', error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+  }
+
   /**
    * Экспортировать результаты множественных кошельков в Excel
    */
@@ -260,10 +459,18 @@ export class BalanceCheckerApp {
       // Автогенерация имени файла
       const filename = `balances_${new Date().toISOString().split('T')[0]}.xlsx`
 
+      const { showHidden } = await prompts({
+        type: 'confirm',
+        name: 'showHidden',
+        message: 'Показать скрытые (спам) токены в отчете отдельным листом?',
+        initial: false
+      })
+
       // Создаем один Excel файл со всеми кошельками (без сортировки)
       const excelFilename = await this.excelExporter.exportMultiWalletResults(results, {
         filename,
-        sortByValue: false
+        sortByValue: false,
+        showHidden: Boolean(showHidden)
       })
 
       console.log(`✅ Excel файл создан: ${excelFilename}`)
@@ -292,7 +499,10 @@ export class BalanceCheckerApp {
               balance: BigInt('1000000000000000000'), // 1 ETH
               balanceFormatted: '1.0',
               symbol: 'ETH',
-              usdValue: 2000
+              usdValue: 2000,
+              priceSource: 'fixed',
+              priceTimestamp: Date.now(),
+              pricedAgainst: { address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', match: 'native' }
             },
             tokenBalances: [
               {
@@ -303,10 +513,19 @@ export class BalanceCheckerApp {
                 balanceFormatted: '1000.0',
                 decimals: 6,
                 usdValue: 1000,
-                priceUSD: '1.0'
+                priceUSD: '1.0',
+                priceSource: 'fixed',
+                priceTimestamp: Date.now(),
+                pricedAgainst: { address: '0xA0b86a33E6441c8C06DdD4C4c4c4c4c4c4c4c4c4', symbol: 'USDC', match: 'token' }
               }
             ],
+            hiddenTokens: [],
+            nftHoldings: [],
+            positions: [],
             totalUsdValue: 3000,
+            status: 'ok',
+            batchesSucceeded: 1,
+            batchesFailed: 0,
             timestamp: Date.now()
           }
         ],
@@ -1,9 +1,42 @@
+import * as fs from 'fs'
 import { Address } from 'viem'
-import { RPCManager } from './rpc-manager.js'
-import { TokenListManager } from './token-list-manager.js'
-import { Multicall3Service, BalanceResult, NativeBalanceResult } from './multicall3-service.js'
+import { RPCManager, NetworkDiagnosticsResult } from './rpc-manager.js'
+import { RPCErrorClass, RPCErrorInfo, describeRPCError } from './rpc-errors.js'
+import { TokenListManager, TokenListStatus, TokenInfo } from './token-list-manager.js'
+import { Multicall3Service, BalanceResult, NativeBalanceResult, WalletBalances, BatchStats, PriceMatch, NO_PRICE_SOURCE } from './multicall3-service.js'
+import { ScanBudget, resolveScanBudget } from './scan-planner.js'
+import { TokenMetadataResolver } from './token-metadata-resolver.js'
+import { loadTokenSources } from './token-sources.js'
+import { TokenFilter, HiddenTokenResult } from './token-filter.js'
+import { loadPriceProvider } from './price-providers.js'
+import { TokenDiscovery } from './token-discovery.js'
+import { NftService, NftHolding } from './nft-service.js'
+import { PositionService, DefiPosition, loadPositionsConfig } from './positions.js'
+import { Erc4626Adapter } from './erc4626-adapter.js'
+import { UniswapV3Adapter } from './uniswap-v3-adapter.js'
+import { AaveV3Adapter } from './aave-v3-adapter.js'
+import { LpTokenValuator } from './lp-valuation.js'
+import { LiquidStakingValuator } from './liquid-staking.js'
+import { RunHistory, RunSummary, createRunId, collectFailures } from './run-history.js'
 import * as cliProgress from 'cli-progress'
 
+/**
+ * Состояние проверки сети
+ *
+ * ok      - все запросы балансов выполнены
+ * partial - часть пакетов балансов токенов или этапов оценки (NFT, LP,
+ *           ликвидный стейкинг, DeFi позиции) не выполнилась, итоги неполные
+ * failed  - сеть не проверена, балансы неизвестны (нули в результате - не данные)
+ */
+export type NetworkStatus = 'ok' | 'partial' | 'failed'
+
+/**
+ * Этап проверки сети, завершившийся ошибкой
+ */
+export interface NetworkStepFailure extends RPCErrorInfo {
+  step: string // NFT, LP токены, ликвидный стейкинг, адаптер позиций
+}
+
 /**
  * Результат проверки балансов для одной сети
  */
@@ -13,7 +46,21 @@ export interface NetworkBalanceResult {
   walletAddress: string
   nativeBalance: NativeBalanceResult
   tokenBalances: BalanceResult[]
+  hiddenTokens: HiddenTokenResult[] // Токены, скрытые фильтром (не входят в итоги)
+  nftHoldings: NftHolding[] // NFT из коллекций nft-collections.json (не входят в итоги)
+  positions: DefiPosition[] // DeFi позиции (входят в итоги вместо своих receipt токенов)
   totalUsdValue: number
+  blockNumber: bigint | null // Блок, на котором сделан снимок (null если сеть не проверена)
+  tokenListStatus?: TokenListStatus // Состояние списка токенов (устаревший кэш, снимок и т.д.)
+  discoveredTokenCount?: number // Токены, найденные по логам Transfer и отсутствующие в списках
+  discoveryFromBlock?: bigint // Поиск по логам ограничен глубиной: блоки раньше этого не сканировались
+  discoveryTruncated?: string // Почему поиск по логам не охватил запрошенный диапазон (ошибка RPC)
+  status: NetworkStatus
+  errorClass?: RPCErrorClass // Класс ошибки (для partial - первого упавшего пакета или этапа)
+  errorMessage?: string
+  failedSteps?: NetworkStepFailure[] // Этапы оценки, завершившиеся ошибкой
+  batchesSucceeded: number // Пакеты запросов балансов токенов, выполненные успешно
+  batchesFailed: number
   timestamp: number
 }
 
@@ -24,6 +71,7 @@ export interface AllNetworksBalanceResult {
   walletAddress: string
   networks: NetworkBalanceResult[]
   totalUsdValue: number
+  asOfTimestamp?: number
   timestamp: number
 }
 
@@ -33,6 +81,23 @@ export interface AllNetworksBalanceResult {
 export interface BalanceCheckConfig {
   chainIds?: number[] // Если не указано, проверяются все поддерживаемые сети
   batchSize?: number // Размер batch для Multicall3
+  blockNumber?: bigint // Снимок на конкретном блоке (для всех выбранных сетей)
+  asOfTimestamp?: number // Снимок на дату (unix timestamp в секундах)
+  discoverTokens?: boolean // Искать токены вне списков по логам Transfer
+  scanBudget?: Partial<ScanBudget> // Лимиты пакета при проверке нескольких кошельков
+}
+
+/**
+ * Балансы кошелька в сети до оценки, фильтрации и поиска позиций
+ */
+interface NetworkScan {
+  networkName: string
+  listTokens: TokenInfo[]
+  tokenListStatus: TokenListStatus
+  blockNumber: bigint
+  nativeBalance: NativeBalanceResult
+  tokenBalances: BalanceResult[]
+  batches: BatchStats
 }
 
 /**
@@ -47,11 +112,43 @@ export interface WalletBalanceResult {
  * Результат проверки балансов для множественных кошельков
  */
 export interface MultiWalletBalanceResult {
+  runId: string // Идентификатор запуска (cache/runs/<runId>.json)
+  retryOf?: string // Запуск, ошибки которого повторены в этом результате
   wallets: WalletBalanceResult[]
   totalUsdValue: number
+  asOfTimestamp?: number
   timestamp: number
 }
 
+/**
+ * Описание состояния списка токенов для вывода
+ */
+export const TOKEN_LIST_STATUS_LABELS: Record<TokenListStatus, string> = {
+  fresh: 'актуальный',
+  stale: 'устаревший кэш',
+  snapshot: 'снимок',
+  unavailable: 'недоступен'
+}
+
+/**
+ * Описание состояния проверки сети для вывода
+ */
+export const NETWORK_STATUS_LABELS: Record<NetworkStatus, string> = {
+  ok: 'проверена',
+  partial: 'частично',
+  failed: 'не проверена'
+}
+
+/**
+ * Описание способа оценки для вывода
+ */
+export const PRICE_MATCH_LABELS: Record<PriceMatch, string> = {
+  token: 'цена токена',
+  native: 'нативный токен',
+  wrapped: 'wrapped-токен',
+  coinKey: 'по coinKey'
+}
+
 /**
  * Основной класс для проверки балансов кошелька
  */
@@ -59,11 +156,68 @@ export class BalanceChecker {
   private rpcManager: RPCManager
   private tokenListManager: TokenListManager
   private multicallService: Multicall3Service
+  private metadataResolver: TokenMetadataResolver
+  private tokenFilter: TokenFilter
+  private tokenDiscovery: TokenDiscovery
+  private nftService: NftService
+  private positionService: PositionService
+  private lpValuator: LpTokenValuator
+  private stakingValuator: LiquidStakingValuator
+  private runHistory: RunHistory
+  private readonly WALLET_CONCURRENCY = 8 // Кошельков, обрабатываемых параллельно после чтения балансов
 
-  constructor () {
+  constructor (offline: boolean = false) {
     this.rpcManager = new RPCManager()
-    this.tokenListManager = new TokenListManager()
-    this.multicallService = new Multicall3Service(this.rpcManager, this.tokenListManager)
+    const fetchFn = this.rpcManager.getFetch()
+    // Метаданные пользовательских токенов читаются из контрактов при загрузке списков
+    const sources = loadTokenSources(fetchFn, undefined, (chainId, addresses) => this.metadataResolver.resolve(chainId, addresses))
+    this.tokenListManager = new TokenListManager(fetchFn, sources, offline)
+    const priceProvider = loadPriceProvider(this.tokenListManager)
+    this.multicallService = new Multicall3Service(this.rpcManager, this.tokenListManager, priceProvider)
+    this.metadataResolver = new TokenMetadataResolver(this.multicallService)
+    this.tokenFilter = TokenFilter.fromFile()
+    this.nftService = new NftService(this.multicallService)
+    this.runHistory = new RunHistory()
+    this.tokenDiscovery = new TokenDiscovery(this.rpcManager, (chainId, addresses) => this.metadataResolver.resolve(chainId, addresses), {
+      getLookbackBlocks: chainId => this.rpcManager.getNetworkConfig(chainId)?.discoveryLookbackBlocks
+    })
+    this.lpValuator = new LpTokenValuator(this.multicallService, (chainId, addresses) => this.metadataResolver.resolve(chainId, addresses), priceProvider)
+    this.stakingValuator = new LiquidStakingValuator(this.rpcManager, this.multicallService, priceProvider)
+    const positionsConfig = loadPositionsConfig()
+    const resolveMetadata = (chainId: number, addresses: string[]) => this.metadataResolver.resolve(chainId, addresses)
+    this.positionService = new PositionService([
+      new Erc4626Adapter(this.multicallService, resolveMetadata, priceProvider, positionsConfig.erc4626Vaults),
+      new UniswapV3Adapter(this.multicallService, resolveMetadata, priceProvider, chainId => this.rpcManager.getNetworkConfig(chainId)?.uniswapV3PositionManager),
+      new AaveV3Adapter(this.multicallService, resolveMetadata, priceProvider, chainId => this.rpcManager.getNetworkConfig(chainId)?.aaveV3Pool, positionsConfig.healthFactorThreshold)
+    ])
+  }
+
+  /**
+   * Включить/выключить офлайн режим для списков токенов
+   */
+  setOfflineMode (offline: boolean): void {
+    this.tokenListManager.setOfflineMode(offline)
+  }
+
+  /**
+   * Включен ли офлайн режим
+   */
+  isOfflineMode (): boolean {
+    return this.tokenListManager.isOfflineMode()
+  }
+
+  /**
+   * Экспортировать снимок списков токенов
+   */
+  async exportTokenSnapshot (filePath: string): Promise<{ chains: number; tokens: number }> {
+    return await this.tokenListManager.exportSnapshot(filePath)
+  }
+
+  /**
+   * Импортировать снимок списков токенов в кэш
+   */
+  importTokenSnapshot (filePath: string): { chains: number; tokens: number; createdAt: number } {
+    return this.tokenListManager.importSnapshot(filePath)
   }
 
   /**
@@ -90,8 +244,8 @@ export class BalanceChecker {
       // Закрываем все RPC соединения
       await this.rpcManager.closeAllConnections()
 
-      // Очищаем кэш токенов
-      this.tokenListManager.clearCache()
+      // Очищаем memory cache токенов (файловый кэш нужен для офлайн режима)
+      this.tokenListManager.clearMemoryCache()
       console.log('✅ BalanceChecker очищен')
     } catch (error) {
       console.error('⚠️ Ошибка при очистке BalanceChecker:', error instanceof Error ? error.message : 'Неизвестная ошибка')
@@ -111,25 +265,11 @@ export class BalanceChecker {
     // Проверяем все сети параллельно
     const networkPromises = chainIds.map(async (chainId) => {
       try {
-        const networkResult = await this.checkSingleNetwork(walletAddress, chainId)
+        const networkResult = await this.checkSingleNetwork(walletAddress, chainId, config)
         return networkResult
-      } catch {
-        // Добавляем пустой результат для неудачной сети
-        const networkConfig = this.rpcManager.getNetworkConfig(chainId)
-        return {
-          chainId,
-          networkName: networkConfig?.name || `Chain ${chainId}`,
-          walletAddress,
-          nativeBalance: {
-            balance: 0n,
-            balanceFormatted: '0',
-            symbol: networkConfig?.nativeCurrency.symbol || 'ETH',
-            usdValue: 0
-          },
-          tokenBalances: [],
-          totalUsdValue: 0,
-          timestamp: Date.now()
-        } as NetworkBalanceResult
+      } catch (error) {
+        // Добавляем пустой результат для неудачной сети (с причиной - балансы неизвестны)
+        return this.createFailedNetworkResult(walletAddress, chainId, describeRPCError(error))
       }
     })
 
@@ -143,55 +283,333 @@ export class BalanceChecker {
       walletAddress,
       networks: networkResults,
       totalUsdValue,
+      ...(config.asOfTimestamp !== undefined && { asOfTimestamp: config.asOfTimestamp }),
       timestamp: Date.now()
     }
 
     return result
   }
 
+  /**
+   * Пустой результат для сети, которую не удалось проверить
+   */
+  private createFailedNetworkResult (
+    walletAddress: string,
+    chainId: number,
+    error: RPCErrorInfo,
+    batches: BatchStats = { succeeded: 0, failed: 0, error: null }
+  ): NetworkBalanceResult {
+    const networkConfig = this.rpcManager.getNetworkConfig(chainId)
+    return {
+      chainId,
+      networkName: networkConfig?.name || `Chain ${chainId}`,
+      walletAddress,
+      nativeBalance: {
+        balance: 0n,
+        balanceFormatted: '0',
+        symbol: networkConfig?.nativeCurrency.symbol || 'ETH',
+        usdValue: 0,
+        priceSource: NO_PRICE_SOURCE,
+        priceTimestamp: null,
+        pricedAgainst: null
+      },
+      tokenBalances: [],
+      hiddenTokens: [],
+      nftHoldings: [],
+      positions: [],
+      totalUsdValue: 0,
+      blockNumber: null,
+      status: 'failed',
+      errorClass: error.errorClass,
+      errorMessage: error.message,
+      batchesSucceeded: batches.succeeded,
+      batchesFailed: batches.failed,
+      timestamp: Date.now()
+    }
+  }
+
+  /**
+   * Проверить наличие Multicall3 в сетях перед сканированием
+   *
+   * Сети без контракта сканируются пакетными JSON-RPC запросами
+   * или одиночными вызовами.
+   */
+  private async probeMulticall3Support (chainIds: number[]): Promise<void> {
+    const probes = await Promise.all(chainIds.map(async (chainId) => ({
+      chainId,
+      supported: await this.rpcManager.probeMulticall3(chainId).catch(() => true)
+    })))
+
+    const unsupported = probes
+      .filter(probe => !probe.supported)
+      .map(probe => this.rpcManager.getNetworkConfig(probe.chainId)?.name || `Chain ${probe.chainId}`)
+
+    if (unsupported.length > 0) {
+      console.log(`⚠️ Multicall3 не найден в сетях: ${unsupported.join(', ')} - используем запасной режим без Multicall3`)
+    }
+  }
+
+  /**
+   * Определить блок снимка для сети: явный блок, блок на дату или последний
+   */
+  private async resolveBlockNumber (chainId: number, config: BalanceCheckConfig): Promise<bigint> {
+    if (config.blockNumber !== undefined) {
+      return config.blockNumber
+    }
+    if (config.asOfTimestamp !== undefined) {
+      return await this.rpcManager.findBlockByTimestamp(chainId, config.asOfTimestamp)
+    }
+    return await this.rpcManager.getBlockNumber(chainId)
+  }
+
   /**
    * Проверить балансы кошелька в конкретной сети
+   *
+   * Все запросы сети выполняются на одном блоке, чтобы нативный баланс
+   * и все батчи токенов были согласованы между собой.
    */
   async checkSingleNetwork (
     walletAddress: Address,
-    chainId: number
+    chainId: number,
+    config: BalanceCheckConfig = {}
   ): Promise<NetworkBalanceResult> {
     const networkConfig = this.rpcManager.getNetworkConfig(chainId)
     if (!networkConfig) {
       throw new Error(`Сеть с chainId ${chainId} не поддерживается`)
     }
 
-    // Получаем токены для сети
-    const tokens = await this.tokenListManager.getTokensForChain(chainId)
+    // Получаем токены для сети (при недоступности источников - устаревший кэш или снимок)
+    const { tokens, status: tokenListStatus } = await this.tokenListManager.getTokensWithStatus(chainId)
+
+    // Фиксируем блок снимка
+    const blockNumber = await this.resolveBlockNumber(chainId, config)
 
     // Проверяем нативный баланс
-    const nativeBalance = await this.multicallService.checkNativeBalance(chainId, walletAddress)
+    const nativeBalance = await this.multicallService.checkNativeBalance(chainId, walletAddress, blockNumber)
 
     // Проверяем балансы токенов
-    const tokenBalances = await this.multicallService.checkTokenBalances(
-      chainId,
-      walletAddress,
-      tokens
-    )
+    const { balances: tokenBalances, batches } = await this.multicallService.checkTokenBalances(chainId, walletAddress, tokens, blockNumber)
+
+    return await this.completeNetworkResult(walletAddress, chainId, {
+      networkName: networkConfig.name,
+      listTokens: tokens,
+      tokenListStatus,
+      blockNumber,
+      nativeBalance,
+      tokenBalances,
+      batches
+    }, config)
+  }
+
+  /**
+   * Проверить сеть для нескольких кошельков
+   *
+   * Список токенов и блок снимка общие для всех кошельков, балансы читаются
+   * общими пакетами Multicall3 по плану (см. scan-planner.ts). Остальная
+   * обработка (NFT, оценка, фильтр, позиции) идет по каждому кошельку.
+   * Результаты возвращаются в порядке адресов.
+   */
+  private async checkNetworkForWallets (
+    walletAddresses: Address[],
+    chainId: number,
+    config: BalanceCheckConfig
+  ): Promise<NetworkBalanceResult[]> {
+    const networkConfig = this.rpcManager.getNetworkConfig(chainId)
+    if (!networkConfig) {
+      const error: RPCErrorInfo = { errorClass: 'unknown', message: `Сеть с chainId ${chainId} не поддерживается` }
+      return walletAddresses.map(walletAddress => this.createFailedNetworkResult(walletAddress, chainId, error))
+    }
+
+    let scan: { tokens: TokenInfo[]; tokenListStatus: TokenListStatus; blockNumber: bigint; balances: WalletBalances[] }
+    try {
+      const { tokens, status: tokenListStatus } = await this.tokenListManager.getTokensWithStatus(chainId)
+      const blockNumber = await this.resolveBlockNumber(chainId, config)
+      const balances = await this.multicallService.checkWalletsBalances(chainId, walletAddresses, tokens, blockNumber, resolveScanBudget(config.scanBudget))
+      scan = { tokens, tokenListStatus, blockNumber, balances }
+    } catch (error) {
+      const errorInfo = describeRPCError(error)
+      return walletAddresses.map(walletAddress => this.createFailedNetworkResult(walletAddress, chainId, errorInfo))
+    }
+
+    const results: NetworkBalanceResult[] = []
+    for (let i = 0; i < walletAddresses.length; i += this.WALLET_CONCURRENCY) {
+      results.push(...await Promise.all(walletAddresses.slice(i, i + this.WALLET_CONCURRENCY).map(async (walletAddress, offset) => {
+        const { nativeBalance, nativeError, tokenBalances, batches } = scan.balances[i + offset]!
+        if (!nativeBalance) {
+          return this.createFailedNetworkResult(walletAddress, chainId, nativeError ?? { errorClass: 'unknown', message: 'Нативный баланс не получен' }, batches)
+        }
+
+        try {
+          return await this.completeNetworkResult(walletAddress, chainId, {
+            networkName: networkConfig.name,
+            listTokens: scan.tokens,
+            tokenListStatus: scan.tokenListStatus,
+            blockNumber: scan.blockNumber,
+            nativeBalance,
+            tokenBalances,
+            batches
+          }, config)
+        } catch (error) {
+          return this.createFailedNetworkResult(walletAddress, chainId, describeRPCError(error), batches)
+        }
+      })))
+    }
+
+    return results
+  }
+
+  /**
+   * Довести проверку сети до результата: токены по логам, NFT, оценка
+   * производных токенов, фильтр, DeFi позиции и итоги
+   */
+  private async completeNetworkResult (
+    walletAddress: Address,
+    chainId: number,
+    scan: NetworkScan,
+    config: BalanceCheckConfig
+  ): Promise<NetworkBalanceResult> {
+    const { nativeBalance, blockNumber } = scan
+
+    // Добавляем токены, найденные по логам Transfer (если включено)
+    const { tokens: discoveredTokens, fromBlock: discoveryFromBlock, truncated: discoveryTruncated } = config.discoverTokens
+      ? await this.discoverTokens(chainId, walletAddress, scan.listTokens, blockNumber)
+      : { tokens: [], fromBlock: undefined, truncated: undefined }
+    const discovered = await this.multicallService.checkTokenBalances(chainId, walletAddress, discoveredTokens, blockNumber)
+    const tokenBalances = [...scan.tokenBalances, ...discovered.balances]
+    const batchesSucceeded = scan.batches.succeeded + discovered.batches.succeeded
+    const batchesFailed = scan.batches.failed + discovered.batches.failed
+    const batchError = scan.batches.error ?? discovered.batches.error
+    const failedSteps: NetworkStepFailure[] = []
+
+    // Проверяем NFT из настроенных коллекций
+    const nftHoldings = await this.checkNftHoldings(chainId, walletAddress, blockNumber, failedSteps)
 
     // Фильтруем нулевые балансы (всегда исключаем нули)
-    const finalTokenBalances = tokenBalances.filter(token => token.balance > 0n)
+    const nonZeroBalances = tokenBalances.filter(token => token.balance > 0n)
+
+    // Оцениваем LP токены пар Uniswap V2 по базовым активам и токены ликвидного
+    // стейкинга по курсу (до фильтра, чтобы он видел их реальную стоимость)
+    const historical = config.blockNumber !== undefined || config.asOfTimestamp !== undefined
+    const valuedBalances = await this.valueDerivativeTokens(chainId, nonZeroBalances, blockNumber, historical, failedSteps)
+
+    // Отделяем спам и скам токены: они не входят в итоги, но остаются в результате
+    const { visible: visibleTokens, hidden: hiddenTokens } = this.tokenFilter.apply(chainId, valuedBalances, nativeBalance.usdValue)
+
+    // Ищем DeFi позиции (ошибка адаптера не мешает проверке токенов);
+    // их receipt токены убираем из списка, чтобы не считать стоимость дважды
+    const { positions, failures: adapterFailures } = await this.positionService.getPositions({ chainId, walletAddress, blockNumber, tokenBalances: visibleTokens })
+    failedSteps.push(...adapterFailures.map(({ adapter, ...error }) => ({ step: `позиции ${adapter}`, ...error })))
+    const receiptTokens = new Set(positions.flatMap(position => (position.receiptTokens || []).map(address => address.toLowerCase())))
+    const finalTokenBalances = visibleTokens.filter(token => !receiptTokens.has(token.address.toLowerCase()))
 
     // Вычисляем общую стоимость
     const tokenUsdValue = finalTokenBalances.reduce((sum, token) => sum + token.usdValue, 0)
-    const totalUsdValue = nativeBalance.usdValue + tokenUsdValue
+    const positionsUsdValue = positions.reduce((sum, position) => sum + position.usdValue, 0)
+    const totalUsdValue = nativeBalance.usdValue + tokenUsdValue + positionsUsdValue
+    const firstError = (batchesFailed > 0 ? batchError : null) ?? failedSteps[0] ?? null
 
     return {
       chainId,
-      networkName: networkConfig.name,
+      networkName: scan.networkName,
       walletAddress,
       nativeBalance,
       tokenBalances: finalTokenBalances,
+      hiddenTokens,
+      nftHoldings,
+      positions,
       totalUsdValue,
+      blockNumber,
+      tokenListStatus: scan.tokenListStatus,
+      ...(config.discoverTokens && { discoveredTokenCount: discoveredTokens.length }),
+      ...(discoveryFromBlock !== undefined && { discoveryFromBlock }),
+      ...(discoveryTruncated && { discoveryTruncated }),
+      status: batchesFailed > 0 || failedSteps.length > 0 ? 'partial' : 'ok',
+      ...(firstError && { errorClass: firstError.errorClass, errorMessage: firstError.message }),
+      ...(failedSteps.length > 0 && { failedSteps }),
+      batchesSucceeded,
+      batchesFailed,
       timestamp: Date.now()
     }
   }
 
+  /**
+   * Проверить NFT кошелька в сети
+   *
+   * Ошибка проверки NFT не мешает проверке токенов и записывается в failedSteps.
+   */
+  private async checkNftHoldings (chainId: number, walletAddress: Address, blockNumber: bigint, failedSteps: NetworkStepFailure[]): Promise<NftHolding[]> {
+    if (!this.nftService.hasCollections(chainId)) {
+      return []
+    }
+
+    try {
+      return await this.nftService.checkNftHoldings(chainId, walletAddress, blockNumber)
+    } catch (error) {
+      console.warn(`⚠️ Не удалось проверить NFT в сети ${chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      failedSteps.push({ step: 'NFT', ...describeRPCError(error) })
+      return []
+    }
+  }
+
+  /**
+   * Оценить LP токены по базовым активам и токены ликвидного стейкинга по курсу
+   *
+   * При ошибке остаются исходные цены токенов, а ошибка записывается в failedSteps.
+   * historical - снимок на прошлый блок (курсы из других сетей читаются на той же дате).
+   */
+  private async valueDerivativeTokens (
+    chainId: number,
+    tokenBalances: BalanceResult[],
+    blockNumber: bigint,
+    historical: boolean,
+    failedSteps: NetworkStepFailure[]
+  ): Promise<BalanceResult[]> {
+    let valued = tokenBalances
+    try {
+      valued = await this.lpValuator.valueLpTokens(chainId, valued, blockNumber)
+    } catch (error) {
+      console.warn(`⚠️ Не удалось оценить LP токены в сети ${chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      failedSteps.push({ step: 'LP токены', ...describeRPCError(error) })
+    }
+    try {
+      valued = await this.stakingValuator.valueStakingTokens(chainId, valued, blockNumber, historical)
+    } catch (error) {
+      console.warn(`⚠️ Не удалось оценить токены ликвидного стейкинга в сети ${chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      failedSteps.push({ step: 'ликвидный стейкинг', ...describeRPCError(error) })
+    }
+    return valued
+  }
+
+  /**
+   * Найти токены кошелька вне списка по логам Transfer
+   *
+   * Глубина поиска отсчитывается от блока снимка. Вместе с токенами
+   * возвращаются начало поиска, если он ограничен глубиной, и описание
+   * ошибки, если запрошенный диапазон просканирован не полностью. Ошибка
+   * поиска не мешает проверке токенов из списка.
+   */
+  private async discoverTokens (
+    chainId: number,
+    walletAddress: Address,
+    listTokens: TokenInfo[],
+    blockNumber: bigint
+  ): Promise<{ tokens: TokenInfo[]; fromBlock?: bigint; truncated?: string }> {
+    try {
+      const listed = new Set(listTokens.map(token => token.address.toLowerCase()))
+      const discovered = await this.tokenDiscovery.discover(chainId, walletAddress, blockNumber)
+      const tokens = discovered.tokens.filter(token => !listed.has(token.address.toLowerCase()))
+      return {
+        tokens,
+        ...(discovered.lookbackLimited && { fromBlock: discovered.scannedFromBlock }),
+        ...(discovered.truncated && { truncated: discovered.error ?? `просканировано до блока ${discovered.lastScannedBlock}` })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Неизвестная ошибка'
+      console.warn(`⚠️ Не удалось найти токены по логам в сети ${chainId}:`, message)
+      return { tokens: [], truncated: message }
+    }
+  }
+
   /**
    * Получить статистику кэшей
    */
@@ -206,15 +624,68 @@ export class BalanceChecker {
   }
 
   /**
-   * Проверить доступность всех сетей
+   * Проверить доступность всех сетей (диагностика каждого RPC endpoint)
    */
-  async checkNetworkAvailability (): Promise<Array<{
-    chainId: number
-    name: string
-    isAvailable: boolean
-    workingRPC?: string
-  }>> {
-    return await this.rpcManager.checkAllNetworks()
+  async checkNetworkAvailability (chainIds?: number[]): Promise<NetworkDiagnosticsResult[]> {
+    return await this.rpcManager.checkAllNetworks(chainIds)
+  }
+
+  /**
+   * Экспортировать отчет о доступности сетей в JSON
+   */
+  exportNetworkReportToJSON (results: NetworkDiagnosticsResult[], filename?: string): string {
+    const outputFile = filename || `network_report_${new Date().toISOString().split('T')[0]}.json`
+    const jsonString = JSON.stringify(
+      { generatedAt: new Date().toISOString(), networks: results },
+      (_key, value) => typeof value === 'bigint' ? value.toString() : value,
+      2
+    )
+
+    fs.writeFileSync(outputFile, jsonString)
+    console.log(`📄 Отчет о сетях экспортирован в ${outputFile}`)
+
+    return outputFile
+  }
+
+  /**
+   * Форматировать отчет о доступности сетей в виде таблицы для консоли
+   */
+  formatNetworkReportForConsole (results: NetworkDiagnosticsResult[]): string {
+    const rows: string[][] = [['', 'Сеть / RPC', 'Chain ID', 'Задержка', 'Блок', 'Отставание', 'Ошибка']]
+
+    for (const network of results) {
+      rows.push([
+        network.isAvailable ? '✅' : '❌',
+        `${network.name} (${network.healthyEndpoints}/${network.endpoints.length})`,
+        network.chainId.toString(),
+        '',
+        network.bestBlock?.toString() || '-',
+        '',
+        network.error || ''
+      ])
+
+      for (const endpoint of network.endpoints) {
+        rows.push([
+          endpoint.isHealthy ? '  ✓' : '  ✗',
+          `  ${endpoint.rpcUrl}`,
+          endpoint.reportedChainId === null ? '-' : `${endpoint.reportedChainId}${endpoint.chainIdMatches ? '' : ' ⚠'}`,
+          `${endpoint.latency}ms`,
+          endpoint.blockNumber?.toString() || '-',
+          endpoint.chainIdMatches && endpoint.blockNumber !== null ? endpoint.blockLag.toString() : '-',
+          endpoint.errorClass || (endpoint.error ? endpoint.error.slice(0, 40) : '')
+        ])
+      }
+    }
+
+    // Ширина колонок по самому длинному значению
+    const widths = rows[0]!.map((_, column) => Math.max(...rows.map(row => row[column]!.length)))
+    const lines = rows.map(row => row.map((cell, column) => cell.padEnd(widths[column]!)).join('  ').trimEnd())
+    lines.splice(1, 0, '-'.repeat(Math.max(...lines.map(line => line.length))))
+
+    const available = results.filter(network => network.isAvailable).length
+    lines.push('', `🌐 Доступно сетей: ${available}/${results.length}`)
+
+    return lines.join('\n')
   }
 
   /**
@@ -235,26 +706,101 @@ export class BalanceChecker {
   /**
    * Форматировать результаты для вывода в консоль
    */
-  formatResultsForConsole (results: AllNetworksBalanceResult): string {
+  formatResultsForConsole (results: AllNetworksBalanceResult, showHidden: boolean = false): string {
+    const failedCount = results.networks.filter(network => network.status === 'failed').length
+    const partialCount = results.networks.filter(network => network.status === 'partial').length
+
     let output = `\n📊 Результаты проверки балансов для кошелька ${results.walletAddress}\n`
-    output += `💰 Общая стоимость: $${results.totalUsdValue.toFixed(2)}\n`
-    output += `🌐 Проверено сетей: ${results.networks.length}\n\n`
+    output += `💰 Общая стоимость: $${results.totalUsdValue.toFixed(2)}${failedCount + partialCount > 0 ? ' (неполная: есть сети с ошибками)' : ''}\n`
+    if (results.asOfTimestamp !== undefined) {
+      output += `📅 Снимок на дату: ${new Date(results.asOfTimestamp * 1000).toLocaleString('ru-RU')}\n`
+    }
+    output += `🌐 Проверено сетей: ${results.networks.length - failedCount} из ${results.networks.length}\n`
+    if (partialCount > 0) {
+      output += `⚠️ Сети с неполными данными: ${partialCount}\n`
+    }
+    output += '\n'
 
     for (const network of results.networks) {
-      output += `🔗 ${network.networkName} (${network.chainId})\n`
-      output += `   💎 ${network.nativeBalance.symbol}: ${network.nativeBalance.balanceFormatted} ($${network.nativeBalance.usdValue.toFixed(2)})\n`
+      const blockInfo = network.blockNumber !== null ? ` · блок ${network.blockNumber}` : ''
+      output += `🔗 ${network.networkName} (${network.chainId})${blockInfo}\n`
+      if (network.status === 'failed') {
+        output += `   ❌ Сеть не проверена (${network.errorClass}): ${network.errorMessage}\n`
+        output += '   💰 Итого по сети: неизвестно\n\n'
+        continue
+      }
+      if (network.batchesFailed > 0) {
+        output += `   ⚠️ Не выполнено пакетов балансов: ${network.batchesFailed} из ${network.batchesSucceeded + network.batchesFailed} (${network.errorClass}): ${network.errorMessage}\n`
+      }
+      for (const failure of network.failedSteps || []) {
+        output += `   ⚠️ Не выполнен этап "${failure.step}" (${failure.errorClass}): ${failure.message}\n`
+      }
+      if (network.tokenListStatus && network.tokenListStatus !== 'fresh') {
+        output += `   ⚠️ Список токенов: ${TOKEN_LIST_STATUS_LABELS[network.tokenListStatus]}\n`
+      }
+      const pricedAgainst = network.nativeBalance.pricedAgainst
+      const priceNote = pricedAgainst && pricedAgainst.match !== 'native' ? ` · цена по ${pricedAgainst.symbol} (${PRICE_MATCH_LABELS[pricedAgainst.match]})` : ''
+      output += `   💎 ${network.nativeBalance.symbol}: ${network.nativeBalance.balanceFormatted} ($${network.nativeBalance.usdValue.toFixed(2)})${priceNote}\n`
 
       if (network.tokenBalances.length > 0) {
         output += `   🪙 Токены (${network.tokenBalances.length}):\n`
         for (const token of network.tokenBalances.slice(0, 5)) { // Показываем только первые 5
-          output += `      ${token.symbol}: ${token.balanceFormatted} ($${token.usdValue.toFixed(2)})\n`
+          const lpNote = token.lpBreakdown ? ` · LP: ${token.lpBreakdown.underlying.map(asset => `${asset.amountFormatted} ${asset.symbol}`).join(' + ')}` : ''
+          const conversionNote = token.conversion ? ` · 1 ${token.symbol} = ${token.conversion.rate.toFixed(6)} ${token.conversion.underlyingSymbol}` : ''
+          output += `      ${token.symbol}: ${token.balanceFormatted} ($${token.usdValue.toFixed(2)})${lpNote}${conversionNote}\n`
         }
         if (network.tokenBalances.length > 5) {
           output += `      ... и еще ${network.tokenBalances.length - 5} токенов\n`
         }
       }
 
-      output += `   💰 Итого по сети: $${network.totalUsdValue.toFixed(2)}\n\n`
+      if (network.positions.length > 0) {
+        output += `   🏦 DeFi позиции (${network.positions.length}):\n`
+        for (const position of network.positions) {
+          const assets = position.assets.map(asset => `${asset.amountFormatted} ${asset.symbol}`).join(' + ')
+          const feesUsd = position.fees.reduce((sum, fee) => sum + fee.usdValue, 0)
+          const feesNote = position.fees.length > 0 ? ` · комиссии $${feesUsd.toFixed(2)}` : ''
+          const debts = position.debts.length > 0 ? ` - долг ${position.debts.map(debt => `${debt.amountFormatted} ${debt.symbol}`).join(' + ')}` : ''
+          output += `      ${position.protocol} · ${position.name}: ${assets}${debts}${feesNote} ($${position.usdValue.toFixed(2)})\n`
+          if (position.healthFactor !== undefined) {
+            const healthFactor = position.healthFactor !== null ? position.healthFactor.toFixed(2) : '∞'
+            output += position.atRisk
+              ? `      🚨 Health factor ${healthFactor} ниже порога - риск ликвидации!\n`
+              : `      ❤️ Health factor ${healthFactor}\n`
+          }
+        }
+      }
+
+      if (network.nftHoldings.length > 0) {
+        output += `   🖼️ NFT (${network.nftHoldings.length} коллекций):\n`
+        for (const holding of network.nftHoldings) {
+          const tokenIds = holding.tokens.length > 0 ? ` · ID: ${holding.tokens.slice(0, 5).map(token => token.tokenId).join(', ')}${holding.tokens.length > 5 ? '...' : ''}` : ''
+          output += `      ${holding.name}: ${holding.balance}${tokenIds}\n`
+        }
+      }
+
+      if (network.discoveredTokenCount) {
+        output += `   🔎 Найдено по логам Transfer вне списка: ${network.discoveredTokenCount}\n`
+      }
+
+      if (network.discoveryFromBlock !== undefined) {
+        output += `   ℹ️ Поиск по логам с блока ${network.discoveryFromBlock} (глубина discoveryLookbackBlocks в networks.json)\n`
+      }
+
+      if (network.discoveryTruncated) {
+        output += `   ⚠️ Поиск по логам неполный: ${network.discoveryTruncated}\n`
+      }
+
+      if (network.hiddenTokens.length > 0) {
+        output += `   🙈 Скрыто токенов: ${network.hiddenTokens.length} (не входят в итоги)\n`
+        if (showHidden) {
+          for (const token of network.hiddenTokens) {
+            output += `      ${token.symbol}: ${token.balanceFormatted} - ${token.hiddenDetails}\n`
+          }
+        }
+      }
+
+      output += `   💰 Итого по сети: $${network.totalUsdValue.toFixed(2)}${network.status === 'partial' ? ' (неполные данные)' : ''}\n\n`
     }
 
     return output
@@ -262,78 +808,206 @@ export class BalanceChecker {
 
   /**
    * Проверить балансы множественных кошельков
+   *
+   * Сети проверяются параллельно, в каждой сети балансы всех кошельков
+   * читаются общими пакетами Multicall3 (а не отдельными запросами на кошелек),
+   * затем раскладываются по кошелькам. Запуск сохраняется в истории, чтобы
+   * потом повторить только упавшие сети (retryFailures).
    */
   async checkMultipleWallets (
     walletAddresses: string[],
     config: BalanceCheckConfig = {}
   ): Promise<MultiWalletBalanceResult> {
+    const addresses = walletAddresses.filter(Boolean) as Address[]
+    const chainIds = config.chainIds || this.rpcManager.getSupportedChainIds()
+
+    const networkResults = await this.checkNetworksForWallets(
+      new Map(chainIds.map(chainId => [chainId, addresses])),
+      config,
+      `🔍 Проверка ${addresses.length} кошельков`
+    )
 
-    // Создаем прогресс-бар для кошельков
+    // Раскладываем результаты сетей по кошелькам
+    const walletResults: WalletBalanceResult[] = addresses.map((walletAddress, index) => {
+      const networks = chainIds.map(chainId => networkResults.get(chainId)![index]!)
+      return {
+        address: walletAddress,
+        results: {
+          walletAddress,
+          networks,
+          totalUsdValue: networks.reduce((sum, network) => sum + network.totalUsdValue, 0),
+          ...(config.asOfTimestamp !== undefined && { asOfTimestamp: config.asOfTimestamp }),
+          timestamp: Date.now()
+        }
+      }
+    })
+    const totalUsdValue = walletResults.reduce((sum, wallet) => sum + wallet.results.totalUsdValue, 0)
+
+    const result: MultiWalletBalanceResult = {
+      runId: createRunId(),
+      wallets: walletResults,
+      totalUsdValue,
+      ...(config.asOfTimestamp !== undefined && { asOfTimestamp: config.asOfTimestamp }),
+      timestamp: Date.now()
+    }
+
+    this.saveRun(result, config)
+    return result
+  }
+
+  /**
+   * Повторить проверку упавших сетей сохраненного запуска
+   *
+   * Заново проверяются только пары кошелек/сеть со статусом failed или
+   * partial, с настройками исходного запуска. Свежие результаты заменяют
+   * старые строки сетей, итоги пересчитываются. Объединенный результат
+   * сохраняется как новый запуск (retryOf - исходный).
+   */
+  async retryFailures (runId: string): Promise<MultiWalletBalanceResult> {
+    const run = this.runHistory.load(runId)
+    if (run.failures.length === 0) {
+      throw new Error(`В запуске ${runId} нет сетей с ошибками`)
+    }
+
+    const walletsByChain = new Map<number, Address[]>()
+    for (const failure of run.failures) {
+      walletsByChain.set(failure.chainId, [...(walletsByChain.get(failure.chainId) || []), failure.walletAddress as Address])
+    }
+
+    const networkResults = await this.checkNetworksForWallets(
+      walletsByChain,
+      run.config,
+      `🔁 Повтор ${run.failures.length} сетей кошельков`
+    )
+
+    // Свежие строки сетей по ключу кошелек:сеть
+    const fresh = new Map<string, NetworkBalanceResult>()
+    for (const [chainId, addresses] of walletsByChain) {
+      addresses.forEach((walletAddress, index) => {
+        fresh.set(`${walletAddress.toLowerCase()}:${chainId}`, networkResults.get(chainId)![index]!)
+      })
+    }
+
+    const walletResults: WalletBalanceResult[] = run.results.wallets.map(wallet => {
+      const networks = wallet.results.networks.map(network => fresh.get(`${wallet.address.toLowerCase()}:${network.chainId}`) ?? network)
+      return {
+        address: wallet.address,
+        results: {
+          ...wallet.results,
+          networks,
+          totalUsdValue: networks.reduce((sum, network) => sum + network.totalUsdValue, 0),
+          timestamp: Date.now()
+        }
+      }
+    })
+
+    const result: MultiWalletBalanceResult = {
+      ...run.results,
+      runId: createRunId(),
+      retryOf: runId,
+      wallets: walletResults,
+      totalUsdValue: walletResults.reduce((sum, wallet) => sum + wallet.results.totalUsdValue, 0),
+      timestamp: Date.now()
+    }
+
+    const recovered = [...fresh.values()].filter(network => network.status === 'ok').length
+    console.log(`🔁 Восстановлено сетей: ${recovered} из ${fresh.size}`)
+
+    this.saveRun(result, run.config, runId)
+    return result
+  }
+
+  /**
+   * Список сохраненных запусков (новые первыми)
+   */
+  listRuns (): RunSummary[] {
+    return this.runHistory.list()
+  }
+
+  /**
+   * Проверить сети для наборов кошельков с прогресс-баром
+   *
+   * Сети проверяются параллельно; результаты каждой сети - в порядке
+   * адресов ее набора.
+   */
+  private async checkNetworksForWallets (
+    walletsByChain: Map<number, Address[]>,
+    config: BalanceCheckConfig,
+    title: string
+  ): Promise<Map<number, NetworkBalanceResult[]>> {
+    // Создаем прогресс-бар для сетей
     const progressBar = new cliProgress.SingleBar({
-      format: '🔍 Проверка кошельков: [{bar}] {percentage}% | {value}/{total} кошельков | {duration_formatted}',
+      format: `${title}: [{bar}] {percentage}% | {value}/{total} сетей | {duration_formatted}`,
       barCompleteChar: '█',
       barIncompleteChar: '░',
       hideCursor: true
     })
 
-    progressBar.start(walletAddresses.length, 0)
+    await this.probeMulticall3Support([...walletsByChain.keys()])
 
-    const walletResults: WalletBalanceResult[] = []
-    let totalUsdValue = 0
+    progressBar.start(walletsByChain.size, 0)
+    this.rpcManager.resetThrottleStats()
 
-    // Обрабатываем кошельки батчами по 8 штук для оптимальной производительности
-    const BATCH_SIZE = 8
+    const networkResults = new Map<number, NetworkBalanceResult[]>()
+    await Promise.all([...walletsByChain].map(async ([chainId, addresses]) => {
+      networkResults.set(chainId, await this.checkNetworkForWallets(addresses, chainId, config))
+      progressBar.increment()
+    }))
 
-    for (let i = 0; i < walletAddresses.length; i += BATCH_SIZE) {
-      const batch = walletAddresses.slice(i, i + BATCH_SIZE)
+    progressBar.stop()
 
-      // Обрабатываем батч параллельно
-      const batchPromises = batch.map(async (walletAddress) => {
-        if (!walletAddress) return null
+    const throttleReport = this.formatThrottleStats()
+    if (throttleReport) {
+      console.log(throttleReport)
+    }
 
-        try {
-          const results = await this.checkAllNetworks(walletAddress as Address, config)
-          progressBar.increment()
-          return {
-            address: walletAddress,
-            results
-          }
-        } catch {
-          // Добавляем пустой результат для неудачного кошелька
-          progressBar.increment()
-          return {
-            address: walletAddress,
-            results: {
-              walletAddress,
-              networks: [],
-              totalUsdValue: 0,
-              timestamp: Date.now()
-            }
-          }
-        }
+    return networkResults
+  }
+
+  /**
+   * Сохранить запуск в истории (ошибка сохранения не мешает результату)
+   */
+  private saveRun (results: MultiWalletBalanceResult, config: BalanceCheckConfig, retryOf?: string): void {
+    const failures = collectFailures(results)
+    try {
+      const filePath = this.runHistory.save({
+        version: 1,
+        runId: results.runId,
+        createdAt: results.timestamp,
+        ...(retryOf !== undefined && { retryOf }),
+        config,
+        failures,
+        results
       })
+      console.log(`🗂️ Запуск ${results.runId} сохранен в ${filePath}`)
+      if (failures.length > 0) {
+        console.log(`⚠️ Сетей кошельков с ошибками: ${failures.length} - их можно проверить повторно (меню "Повторить ошибки запуска")`)
+      }
+    } catch (error) {
+      console.warn(`⚠️ Не удалось сохранить запуск ${results.runId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+  }
 
-      // Ждем завершения всех кошельков в батче
-      const batchResults = await Promise.all(batchPromises)
+  /**
+   * Форматировать статистику ограничения запросов к RPC
+   */
+  formatThrottleStats (): string {
+    const stats = this.rpcManager.getThrottleStats()
+      .filter(host => host.throttled > 0 || host.rateLimitResponses > 0)
 
-      // Добавляем результаты
-      for (const result of batchResults) {
-        if (result) {
-          walletResults.push(result)
-          totalUsdValue += result.results.totalUsdValue
-        }
-      }
+    if (stats.length === 0) {
+      return ''
     }
 
-    progressBar.stop()
+    const totalThrottled = stats.reduce((sum, host) => sum + host.throttled, 0)
+    const total429 = stats.reduce((sum, host) => sum + host.rateLimitResponses, 0)
 
-    const result: MultiWalletBalanceResult = {
-      wallets: walletResults,
-      totalUsdValue,
-      timestamp: Date.now()
+    let output = `\n⏱️ Ограничение запросов: ${totalThrottled} ожиданий, ${total429} ответов 429\n`
+    for (const host of stats.slice(0, 10)) {
+      output += `   ${host.host} (${host.rps} rps): ${host.throttled}/${host.requests} запросов ждали ${(host.throttledMs / 1000).toFixed(1)}с, 429: ${host.rateLimitResponses}\n`
     }
 
-    return result
+    return output
   }
 
   /**
@@ -341,9 +1015,47 @@ export class BalanceChecker {
    */
   formatMultiWalletResults (results: MultiWalletBalanceResult): string {
     let output = `\n📊 Результаты проверки ${results.wallets.length} кошельков\n`
+    output += `🗂️ Запуск: ${results.runId}${results.retryOf ? ` (повтор ошибок запуска ${results.retryOf})` : ''}\n`
     output += `💰 Общая стоимость: $${results.totalUsdValue.toFixed(2)}\n`
+    if (results.asOfTimestamp !== undefined) {
+      output += `📅 Снимок на дату: ${new Date(results.asOfTimestamp * 1000).toLocaleString('ru-RU')}\n`
+    }
     output += `🌐 Проверено кошельков: ${results.wallets.length}\n`
 
+    // Ошибки группируем по сети и причине, чтобы упавший RPC не дал строку на каждый кошелек
+    const errorGroups = new Map<string, { network: NetworkBalanceResult; wallets: number }>()
+    for (const wallet of results.wallets) {
+      for (const network of wallet.results.networks.filter(network => network.status !== 'ok')) {
+        const key = `${network.chainId}:${network.status}:${network.errorClass}:${network.errorMessage}`
+        const group = errorGroups.get(key)
+        if (group) {
+          group.wallets++
+        } else {
+          errorGroups.set(key, { network, wallets: 1 })
+        }
+      }
+    }
+    if (errorGroups.size > 0) {
+      output += '❗ Итоги неполные - часть балансов неизвестна (это не нулевые балансы):\n'
+      for (const { network, wallets } of errorGroups.values()) {
+        const icon = network.status === 'failed' ? '❌' : '⚠️'
+        output += `   ${icon} ${network.networkName} (${network.chainId}) · ${NETWORK_STATUS_LABELS[network.status]} · кошельков: ${wallets} · ${network.errorClass}: ${network.errorMessage}\n`
+      }
+    }
+
+    const hiddenCount = results.wallets.reduce((sum, wallet) => sum + wallet.results.networks.reduce((count, network) => count + network.hiddenTokens.length, 0), 0)
+    if (hiddenCount > 0) {
+      output += `🙈 Скрыто спам-токенов: ${hiddenCount} (не входят в итоги)\n`
+    }
+
+    for (const wallet of results.wallets) {
+      for (const network of wallet.results.networks) {
+        for (const position of network.positions.filter(position => position.atRisk)) {
+          output += `🚨 ${wallet.address} · ${network.networkName} · ${position.protocol}: health factor ${position.healthFactor?.toFixed(2)} ниже порога\n`
+        }
+      }
+    }
+
     return output
   }
 
@@ -351,7 +1063,7 @@ export class BalanceChecker {
    * Экспортировать результаты множественных кошельков в JSON
    */
   exportMultiWalletToJSON (results: MultiWalletBalanceResult, filename?: string): string {
-    const jsonString = JSON.stringify(results, null, 2)
+    const jsonString = JSON.stringify(results, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2)
 
     if (filename) {
       const fs = require('fs')
@@ -0,0 +1,162 @@
+import { encodeFunctionData, decodeFunctionResult, Address } from 'viem'
+import { Multicall3Service, Call3, ERC20_ABI } from './multicall3-service.js'
+import type { PriceProvider } from './price-providers.js'
+import type { TokenMetadataLookup } from './token-metadata-resolver.js'
+import {
+  PositionAdapter,
+  PositionQuery,
+  DefiPosition,
+  PositionContractConfig,
+  createPosition,
+  valuePositionAssets
+} from './positions.js'
+
+/**
+ * ABI для ERC-4626 (нужные функции)
+ */
+export const ERC4626_ABI = [
+  {
+    'inputs': [],
+    'name': 'asset',
+    'outputs': [
+      { 'internalType': 'address', 'name': '', 'type': 'address' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [
+      { 'internalType': 'uint256', 'name': 'shares', 'type': 'uint256' }
+    ],
+    'name': 'convertToAssets',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': '', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * Хранилище-кандидат (доля на кошельке)
+ */
+interface VaultCandidate {
+  address: string
+  name: string
+  shares: bigint | null // null - баланс еще не известен
+}
+
+/**
+ * Адаптер хранилищ ERC-4626
+ *
+ * Кандидаты - найденные токены сети с ненулевым балансом и хранилища из
+ * positions.json. Токен считается хранилищем, если отвечает на asset().
+ * Первый пакет вызовов: asset() и balanceOf(кошелек) для всех кандидатов,
+ * второй: convertToAssets(доля) для хранилищ с ненулевой долей.
+ */
+export class Erc4626Adapter implements PositionAdapter {
+  readonly name = 'ERC-4626'
+  private readonly multicallService: Multicall3Service
+  private readonly resolveMetadata: TokenMetadataLookup
+  private readonly priceProvider: PriceProvider
+  private readonly vaults: PositionContractConfig[]
+
+  constructor (
+    multicallService: Multicall3Service,
+    resolveMetadata: TokenMetadataLookup,
+    priceProvider: PriceProvider,
+    vaults: PositionContractConfig[] = []
+  ) {
+    this.multicallService = multicallService
+    this.resolveMetadata = resolveMetadata
+    this.priceProvider = priceProvider
+    this.vaults = vaults
+  }
+
+  /**
+   * Собрать кандидатов: токены с балансом и настроенные хранилища
+   */
+  private getCandidates (query: PositionQuery): VaultCandidate[] {
+    const candidates = new Map<string, VaultCandidate>()
+
+    for (const token of query.tokenBalances) {
+      if (token.balance > 0n) {
+        candidates.set(token.address.toLowerCase(), { address: token.address, name: token.symbol, shares: token.balance })
+      }
+    }
+
+    for (const vault of this.vaults) {
+      const key = vault.address.toLowerCase()
+      if (vault.chainId === query.chainId && !candidates.has(key)) {
+        candidates.set(key, { address: vault.address, name: vault.name || vault.address, shares: null })
+      }
+    }
+
+    return [...candidates.values()]
+  }
+
+  async getPositions (query: PositionQuery): Promise<DefiPosition[]> {
+    const candidates = this.getCandidates(query)
+    if (candidates.length === 0) {
+      return []
+    }
+
+    const probeCalls: Call3[] = candidates.flatMap(candidate => [
+      {
+        target: candidate.address as Address,
+        allowFailure: true,
+        callData: encodeFunctionData({ abi: ERC4626_ABI, functionName: 'asset' })
+      },
+      {
+        target: candidate.address as Address,
+        allowFailure: true,
+        callData: encodeFunctionData({ abi: ERC20_ABI, functionName: 'balanceOf', args: [query.walletAddress] })
+      }
+    ])
+    const probeResults = await this.multicallService.executeCalls(query.chainId, probeCalls, query.blockNumber)
+
+    const vaults = candidates.flatMap((candidate, index) => {
+      const asset = this.multicallService.decodeResult(probeResults[index * 2], data =>
+        decodeFunctionResult({ abi: ERC4626_ABI, functionName: 'asset', data }))
+      const shares = this.multicallService.decodeResult(probeResults[index * 2 + 1], data =>
+        decodeFunctionResult({ abi: ERC20_ABI, functionName: 'balanceOf', data })) ?? candidate.shares
+      return asset && shares ? [{ ...candidate, asset, shares }] : []
+    })
+    if (vaults.length === 0) {
+      return []
+    }
+
+    const convertResults = await this.multicallService.executeCalls(query.chainId, vaults.map(vault => ({
+      target: vault.address as Address,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: ERC4626_ABI, functionName: 'convertToAssets', args: [vault.shares] })
+    })), query.blockNumber)
+
+    const metadata = await this.resolveMetadata(query.chainId, [...new Set(vaults.map(vault => vault.asset.toLowerCase()))])
+
+    const positions: DefiPosition[] = []
+    for (const [index, vault] of vaults.entries()) {
+      const amount = this.multicallService.decodeResult(convertResults[index], data =>
+        decodeFunctionResult({ abi: ERC4626_ABI, functionName: 'convertToAssets', data }))
+      const assetMetadata = metadata.get(vault.asset.toLowerCase())
+      if (amount === null || !assetMetadata) {
+        console.warn(`⚠️ ERC-4626 ${vault.address} в сети ${query.chainId}: не удалось оценить долю`)
+        continue
+      }
+
+      positions.push(createPosition({
+        protocol: this.name,
+        type: 'vault',
+        name: vault.name,
+        contractAddress: vault.address,
+        receiptTokens: [vault.address],
+        assets: await valuePositionAssets(this.priceProvider, query.chainId, [
+          { address: vault.asset, metadata: assetMetadata, amount }
+        ]),
+        details: { 'Доля': vault.shares.toString() }
+      }))
+    }
+
+    return positions
+  }
+}
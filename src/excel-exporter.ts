@@ -1,6 +1,9 @@
 import ExcelJS from 'exceljs'
-import { AllNetworksBalanceResult, MultiWalletBalanceResult } from './balance-checker.js'
-import { BalanceResult } from './multicall3-service.js'
+import { AllNetworksBalanceResult, MultiWalletBalanceResult, TOKEN_LIST_STATUS_LABELS, PRICE_MATCH_LABELS, NETWORK_STATUS_LABELS } from './balance-checker.js'
+import { BalanceResult, PricedAgainst } from './multicall3-service.js'
+import { NetworkDiagnosticsResult } from './rpc-manager.js'
+import { LpBreakdown } from './lp-valuation.js'
+import { TokenConversion } from './liquid-staking.js'
 
 /**
  * Конфигурация для экспорта в Excel
@@ -10,6 +13,7 @@ export interface ExcelExportConfig {
   includeTimestamp?: boolean
   sortByValue?: boolean
   groupByNetwork?: boolean
+  showHidden?: boolean // Добавить лист со скрытыми (спам) токенами
 }
 
 /**
@@ -48,6 +52,19 @@ export class ExcelExporter {
     // Создаем лист с токенами
     await this.createTokensSheet(results, config)
 
+    // Создаем лист с DeFi позициями
+    await this.createPositionsSheet([results], false)
+
+    // Создаем лист с NFT
+    await this.createNftSheet([results], false)
+
+    // Создаем лист с ошибками проверки сетей
+    await this.createErrorsSheet([results], false)
+
+    if (config.showHidden) {
+      await this.createHiddenTokensSheet([results], false)
+    }
+
     // Сохраняем файл
     await this.workbook.xlsx.writeFile(filename)
 
@@ -74,7 +91,14 @@ export class ExcelExporter {
       { parameter: 'Адрес кошелька', value: results.walletAddress },
       { parameter: 'Общая стоимость (USD)', value: `$${results.totalUsdValue.toFixed(2)}` },
       { parameter: 'Дата проверки', value: new Date(results.timestamp).toLocaleString('ru-RU') },
-      { parameter: 'Сети с балансом', value: results.networks.filter(n => n.totalUsdValue > 0).length.toString() }
+      ...(results.asOfTimestamp !== undefined
+        ? [{ parameter: 'Снимок на дату', value: new Date(results.asOfTimestamp * 1000).toLocaleString('ru-RU') }]
+        : []),
+      { parameter: 'Сети с балансом', value: results.networks.filter(n => n.totalUsdValue > 0).length.toString() },
+      { parameter: 'Сети не проверены (балансы неизвестны)', value: results.networks.filter(n => n.status === 'failed').length.toString() },
+      { parameter: 'Сети с неполными данными', value: results.networks.filter(n => n.status === 'partial').length.toString() },
+      { parameter: 'Скрыто токенов (спам)', value: results.networks.reduce((sum, n) => sum + n.hiddenTokens.length, 0).toString() },
+      { parameter: 'Займы с риском ликвидации', value: results.networks.reduce((sum, n) => sum + n.positions.filter(p => p.atRisk).length, 0).toString() }
     ]
 
     worksheet.addRows(summaryData)
@@ -96,24 +120,30 @@ export class ExcelExporter {
     worksheet.columns = [
       { header: 'Сеть', key: 'network', width: 20 },
       { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Блок', key: 'blockNumber', width: 14 },
       { header: 'Нативный баланс', key: 'nativeBalance', width: 20 },
       { header: 'Символ', key: 'symbol', width: 10 },
       { header: 'USD стоимость нативного', key: 'nativeUsdValue', width: 20 },
       { header: 'Количество токенов', key: 'tokenCount', width: 15 },
       { header: 'USD стоимость токенов', key: 'tokensUsdValue', width: 20 },
-      { header: 'Общая стоимость (USD)', key: 'totalUsdValue', width: 20 }
+      { header: 'Общая стоимость (USD)', key: 'totalUsdValue', width: 20 },
+      { header: 'Список токенов', key: 'tokenListStatus', width: 18 },
+      { header: 'Статус', key: 'status', width: 14 }
     ]
 
     // Данные
     const networksData = results.networks.map(network => ({
       network: network.networkName,
       chainId: network.chainId,
+      blockNumber: network.blockNumber?.toString() || '',
       nativeBalance: network.nativeBalance.balanceFormatted,
       symbol: network.nativeBalance.symbol,
       nativeUsdValue: `$${network.nativeBalance.usdValue.toFixed(2)}`,
       tokenCount: network.tokenBalances.length,
       tokensUsdValue: `$${network.tokenBalances.reduce((sum, token) => sum + token.usdValue, 0).toFixed(2)}`,
-      totalUsdValue: `$${network.totalUsdValue.toFixed(2)}`
+      totalUsdValue: network.status === 'failed' ? 'неизвестно' : `$${network.totalUsdValue.toFixed(2)}`,
+      tokenListStatus: network.tokenListStatus ? TOKEN_LIST_STATUS_LABELS[network.tokenListStatus] : '',
+      status: NETWORK_STATUS_LABELS[network.status]
     }))
 
     worksheet.addRows(networksData)
@@ -121,8 +151,9 @@ export class ExcelExporter {
     // Сортировка если нужно
     if (_config.sortByValue) {
       worksheet.getRows(2, worksheet.rowCount - 1)?.sort((a, b) => {
-        const aValue = parseFloat(a.getCell('totalUsdValue').value?.toString().replace('$', '') || '0')
-        const bValue = parseFloat(b.getCell('totalUsdValue').value?.toString().replace('$', '') || '0')
+        // Непроверенные сети ('неизвестно') сортируются как нулевые
+        const aValue = parseFloat(a.getCell('totalUsdValue').value?.toString().replace('$', '') || '0') || 0
+        const bValue = parseFloat(b.getCell('totalUsdValue').value?.toString().replace('$', '') || '0') || 0
         return bValue - aValue
       })
     }
@@ -145,7 +176,10 @@ export class ExcelExporter {
       { header: 'Chain ID', key: 'chainId', width: 10 },
       { header: 'Символ', key: 'symbol', width: 10 },
       { header: 'Баланс', key: 'balance', width: 20 },
-      { header: 'USD стоимость', key: 'usdValue', width: 20 }
+      { header: 'USD стоимость', key: 'usdValue', width: 20 },
+      { header: 'Источник цены', key: 'priceSource', width: 20 },
+      { header: 'Время цены', key: 'priceTime', width: 20 },
+      { header: 'Цена по токену', key: 'pricedAgainst', width: 60 }
     ]
 
     // Данные
@@ -154,7 +188,10 @@ export class ExcelExporter {
       chainId: network.chainId,
       symbol: network.nativeBalance.symbol,
       balance: network.nativeBalance.balanceFormatted,
-      usdValue: `$${network.nativeBalance.usdValue.toFixed(2)}`
+      usdValue: `$${network.nativeBalance.usdValue.toFixed(2)}`,
+      priceSource: network.nativeBalance.priceSource,
+      priceTime: this.formatPriceTime(network.nativeBalance.priceTimestamp),
+      pricedAgainst: this.formatPricedAgainst(network.nativeBalance.pricedAgainst)
     }))
 
     worksheet.addRows(nativeData)
@@ -182,7 +219,11 @@ export class ExcelExporter {
       { header: 'Баланс', key: 'balance', width: 20 },
       { header: 'Децималы', key: 'decimals', width: 10 },
       { header: 'Цена (USD)', key: 'priceUsd', width: 15 },
-      { header: 'USD стоимость', key: 'usdValue', width: 20 }
+      { header: 'USD стоимость', key: 'usdValue', width: 20 },
+      { header: 'Источник цены', key: 'priceSource', width: 20 },
+      { header: 'Время цены', key: 'priceTime', width: 20 },
+      { header: 'Состав LP', key: 'lpBreakdown', width: 60 },
+      { header: 'Курс к базовому активу', key: 'conversion', width: 50 }
     ]
 
     // Собираем все токены из всех сетей
@@ -211,7 +252,11 @@ export class ExcelExporter {
       balance: token.balanceFormatted,
       decimals: token.decimals,
       priceUsd: `$${parseFloat(token.priceUSD).toFixed(6)}`,
-      usdValue: `$${token.usdValue.toFixed(2)}`
+      usdValue: `$${token.usdValue.toFixed(2)}`,
+      priceSource: token.priceSource,
+      priceTime: this.formatPriceTime(token.priceTimestamp),
+      lpBreakdown: this.formatLpBreakdown(token.lpBreakdown),
+      conversion: this.formatConversion(token.symbol, token.conversion)
     }))
 
     worksheet.addRows(tokensData)
@@ -229,6 +274,41 @@ export class ExcelExporter {
     this.styleTokensSheet(worksheet)
   }
 
+  /**
+   * Время цены для отчета
+   */
+  private formatPriceTime (timestamp: number | null): string {
+    return timestamp !== null ? new Date(timestamp).toLocaleString('ru-RU') : '—'
+  }
+
+  /**
+   * Базовые активы LP токена для отчета
+   */
+  private formatLpBreakdown (lpBreakdown: LpBreakdown | undefined): string {
+    if (!lpBreakdown) {
+      return '—'
+    }
+    const assets = lpBreakdown.underlying.map(asset => `${asset.amountFormatted} ${asset.symbol} ($${asset.usdValue.toFixed(2)})`).join(' + ')
+    return `${assets} · доля пула ${(lpBreakdown.poolShare * 100).toFixed(4)}%`
+  }
+
+  /**
+   * Курс токена ликвидного стейкинга для отчета
+   */
+  private formatConversion (symbol: string, conversion: TokenConversion | undefined): string {
+    if (!conversion) {
+      return '—'
+    }
+    return `1 ${symbol} = ${conversion.rate.toFixed(6)} ${conversion.underlyingSymbol} (${conversion.rateSource})`
+  }
+
+  /**
+   * Токен, по цене которого оценен баланс
+   */
+  private formatPricedAgainst (pricedAgainst: PricedAgainst | null): string {
+    return pricedAgainst ? `${pricedAgainst.symbol} (${PRICE_MATCH_LABELS[pricedAgainst.match]}) ${pricedAgainst.address}` : '—'
+  }
+
   /**
    * Стилизация листа с общей информацией
    */
@@ -268,8 +348,8 @@ export class ExcelExporter {
     }
     worksheet.getRow(1).font = { color: { argb: 'FFFFFFFF' } }
 
-    // Автофильтр
-    worksheet.autoFilter = 'A1:H1'
+    // Автофильтр по всем колонкам листа
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: worksheet.columnCount } }
 
     // Границы
     worksheet.eachRow((row) => {
@@ -324,7 +404,7 @@ export class ExcelExporter {
     worksheet.getRow(1).font = { color: { argb: 'FFFFFFFF' } }
 
     // Автофильтр
-    worksheet.autoFilter = 'A1:I1'
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: worksheet.columnCount } }
 
     // Границы
     worksheet.eachRow((row) => {
@@ -360,6 +440,80 @@ export class ExcelExporter {
     return filename
   }
 
+  /**
+   * Экспортировать отчет о доступности сетей и RPC endpoints
+   */
+  async exportNetworkReport (
+    results: NetworkDiagnosticsResult[],
+    config: ExcelExportConfig = {}
+  ): Promise<string> {
+    const filename = config.filename || `network_report_${new Date().toISOString().split('T')[0]}.xlsx`
+
+    // Создаем новый workbook для отчета о сетях
+    this.workbook = new ExcelJS.Workbook()
+
+    const networksSheet = this.workbook.addWorksheet('Сети')
+    networksSheet.columns = [
+      { header: 'Сеть', key: 'network', width: 20 },
+      { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Доступна', key: 'isAvailable', width: 10 },
+      { header: 'Рабочих RPC', key: 'healthyEndpoints', width: 12 },
+      { header: 'Всего RPC', key: 'totalEndpoints', width: 10 },
+      { header: 'Последний блок', key: 'bestBlock', width: 16 },
+      { header: 'Лучший RPC', key: 'workingRPC', width: 45 },
+      { header: 'Ошибка', key: 'error', width: 40 }
+    ]
+
+    networksSheet.addRows(results.map(network => ({
+      network: network.name,
+      chainId: network.chainId,
+      isAvailable: network.isAvailable ? 'Да' : 'Нет',
+      healthyEndpoints: network.healthyEndpoints,
+      totalEndpoints: network.endpoints.length,
+      bestBlock: network.bestBlock?.toString() || '',
+      workingRPC: network.workingRPC || '',
+      error: network.error || ''
+    })))
+
+    this.styleNetworksSheet(networksSheet)
+
+    const endpointsSheet = this.workbook.addWorksheet('RPC Endpoints')
+    endpointsSheet.columns = [
+      { header: 'Сеть', key: 'network', width: 20 },
+      { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'RPC URL', key: 'rpcUrl', width: 45 },
+      { header: 'Здоров', key: 'isHealthy', width: 10 },
+      { header: 'Chain ID RPC', key: 'reportedChainId', width: 12 },
+      { header: 'Chain ID совпадает', key: 'chainIdMatches', width: 18 },
+      { header: 'Задержка (мс)', key: 'latency', width: 14 },
+      { header: 'Блок', key: 'blockNumber', width: 14 },
+      { header: 'Отставание (блоков)', key: 'blockLag', width: 18 },
+      { header: 'Класс ошибки', key: 'errorClass', width: 14 },
+      { header: 'Ошибка', key: 'error', width: 50 }
+    ]
+
+    endpointsSheet.addRows(results.flatMap(network => network.endpoints.map(endpoint => ({
+      network: network.name,
+      chainId: network.chainId,
+      rpcUrl: endpoint.rpcUrl,
+      isHealthy: endpoint.isHealthy ? 'Да' : 'Нет',
+      reportedChainId: endpoint.reportedChainId ?? '',
+      chainIdMatches: endpoint.reportedChainId === null ? '' : endpoint.chainIdMatches ? 'Да' : 'Нет',
+      latency: endpoint.latency,
+      blockNumber: endpoint.blockNumber?.toString() || '',
+      blockLag: endpoint.chainIdMatches && endpoint.blockNumber !== null ? endpoint.blockLag : '',
+      errorClass: endpoint.errorClass || '',
+      error: endpoint.error || ''
+    }))))
+
+    this.styleNetworksSheet(endpointsSheet)
+
+    // Сохраняем файл
+    await this.workbook.xlsx.writeFile(filename)
+
+    return filename
+  }
+
   /**
    * Экспортировать результаты множественных кошельков в один Excel файл
    */
@@ -387,6 +541,19 @@ export class ExcelExporter {
     // Создаем лист с токенами всех кошельков
     await this.createMultiWalletTokensSheet(results, config)
 
+    // Создаем лист с DeFi позициями всех кошельков
+    await this.createPositionsSheet(results.wallets.map(wallet => wallet.results), true)
+
+    // Создаем лист с NFT всех кошельков
+    await this.createNftSheet(results.wallets.map(wallet => wallet.results), true)
+
+    // Создаем лист с ошибками проверки сетей всех кошельков
+    await this.createErrorsSheet(results.wallets.map(wallet => wallet.results), true)
+
+    if (config.showHidden) {
+      await this.createHiddenTokensSheet(results.wallets.map(wallet => wallet.results), true)
+    }
+
     // Сохраняем файл
     await this.workbook.xlsx.writeFile(filename)
 
@@ -409,10 +576,18 @@ export class ExcelExporter {
 
     // Данные
     const summaryData = [
+      { parameter: 'Запуск', value: results.runId },
+      ...(results.retryOf !== undefined ? [{ parameter: 'Повтор ошибок запуска', value: results.retryOf }] : []),
       { parameter: 'Количество кошельков', value: results.wallets.length.toString() },
       { parameter: 'Общая стоимость (USD)', value: `$${results.totalUsdValue.toFixed(2)}` },
       { parameter: 'Дата проверки', value: new Date(results.timestamp).toLocaleString('ru-RU') },
-      { parameter: 'Кошельки с балансом', value: results.wallets.filter(w => w.results.totalUsdValue > 0).length.toString() }
+      ...(results.asOfTimestamp !== undefined
+        ? [{ parameter: 'Снимок на дату', value: new Date(results.asOfTimestamp * 1000).toLocaleString('ru-RU') }]
+        : []),
+      { parameter: 'Кошельки с балансом', value: results.wallets.filter(w => w.results.totalUsdValue > 0).length.toString() },
+      { parameter: 'Кошельки с ошибками (итоги неполные)', value: results.wallets.filter(w => w.results.networks.some(n => n.status !== 'ok')).length.toString() },
+      { parameter: 'Скрыто токенов (спам)', value: results.wallets.reduce((sum, w) => sum + w.results.networks.reduce((count, n) => count + n.hiddenTokens.length, 0), 0).toString() },
+      { parameter: 'Займы с риском ликвидации', value: results.wallets.reduce((sum, w) => sum + w.results.networks.reduce((count, n) => count + n.positions.filter(p => p.atRisk).length, 0), 0).toString() }
     ]
 
     worksheet.addRows(summaryData)
@@ -437,7 +612,8 @@ export class ExcelExporter {
       { header: 'Количество сетей', key: 'networksCount', width: 15 },
       { header: 'Общая стоимость (USD)', key: 'totalUsdValue', width: 20 },
       { header: 'Сети с балансом', key: 'networksWithBalance', width: 15 },
-      { header: 'Количество токенов', key: 'tokensCount', width: 15 }
+      { header: 'Количество токенов', key: 'tokensCount', width: 15 },
+      { header: 'Сети с ошибками', key: 'networksWithErrors', width: 15 }
     ]
 
     // Данные
@@ -447,7 +623,8 @@ export class ExcelExporter {
       networksCount: wallet.results.networks.filter(n => n.nativeBalance.balance > 0n || n.tokenBalances.some(token => token.balance > 0n)).length,
       totalUsdValue: `$${wallet.results.totalUsdValue.toFixed(2)}`,
       networksWithBalance: wallet.results.networks.filter(n => n.totalUsdValue > 0).length,
-      tokensCount: wallet.results.networks.reduce((sum, n) => sum + n.tokenBalances.filter(token => token.balance > 0n).length, 0)
+      tokensCount: wallet.results.networks.reduce((sum, n) => sum + n.tokenBalances.filter(token => token.balance > 0n).length, 0),
+      networksWithErrors: wallet.results.networks.filter(n => n.status !== 'ok').length
     }))
 
     worksheet.addRows(walletsData)
@@ -479,12 +656,14 @@ export class ExcelExporter {
       { header: 'Кошелек', key: 'wallet', width: 45 },
       { header: 'Сеть', key: 'network', width: 20 },
       { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Блок', key: 'blockNumber', width: 14 },
       { header: 'Нативный баланс', key: 'nativeBalance', width: 20 },
       { header: 'Символ', key: 'symbol', width: 10 },
       { header: 'USD стоимость нативного', key: 'nativeUsdValue', width: 20 },
       { header: 'Количество токенов', key: 'tokenCount', width: 15 },
       { header: 'USD стоимость токенов', key: 'tokensUsdValue', width: 20 },
-      { header: 'Общая стоимость (USD)', key: 'totalUsdValue', width: 20 }
+      { header: 'Общая стоимость (USD)', key: 'totalUsdValue', width: 20 },
+      { header: 'Список токенов', key: 'tokenListStatus', width: 18 }
     ]
 
     // Собираем данные по всем кошелькам и сетям
@@ -492,12 +671,14 @@ export class ExcelExporter {
       wallet: string
       network: string
       chainId: number
+      blockNumber: string
       nativeBalance: string
       symbol: string
       nativeUsdValue: string
       tokenCount: number
       tokensUsdValue: string
       totalUsdValue: string
+      tokenListStatus: string
     }> = []
 
     for (const wallet of results.wallets) {
@@ -508,12 +689,14 @@ export class ExcelExporter {
             wallet: wallet.results.walletAddress,
             network: network.networkName,
             chainId: network.chainId,
+            blockNumber: network.blockNumber?.toString() || '',
             nativeBalance: network.nativeBalance.balanceFormatted,
             symbol: network.nativeBalance.symbol,
             nativeUsdValue: `$${network.nativeBalance.usdValue.toFixed(2)}`,
             tokenCount: network.tokenBalances.filter(token => token.balance > 0n).length,
             tokensUsdValue: `$${network.tokenBalances.reduce((sum, token) => sum + token.usdValue, 0).toFixed(2)}`,
-            totalUsdValue: `$${network.totalUsdValue.toFixed(2)}`
+            totalUsdValue: `$${network.totalUsdValue.toFixed(2)}`,
+            tokenListStatus: network.tokenListStatus ? TOKEN_LIST_STATUS_LABELS[network.tokenListStatus] : ''
           })
         }
       }
@@ -549,7 +732,10 @@ export class ExcelExporter {
       { header: 'Chain ID', key: 'chainId', width: 10 },
       { header: 'Символ', key: 'symbol', width: 10 },
       { header: 'Баланс', key: 'balance', width: 20 },
-      { header: 'USD стоимость', key: 'usdValue', width: 20 }
+      { header: 'USD стоимость', key: 'usdValue', width: 20 },
+      { header: 'Источник цены', key: 'priceSource', width: 20 },
+      { header: 'Время цены', key: 'priceTime', width: 20 },
+      { header: 'Цена по токену', key: 'pricedAgainst', width: 60 }
     ]
 
     // Собираем все нативные балансы
@@ -560,6 +746,9 @@ export class ExcelExporter {
       symbol: string
       balance: string
       usdValue: string
+      priceSource: string
+      priceTime: string
+      pricedAgainst: string
     }> = []
 
     for (const wallet of results.wallets) {
@@ -572,7 +761,10 @@ export class ExcelExporter {
             chainId: network.chainId,
             symbol: network.nativeBalance.symbol,
             balance: network.nativeBalance.balanceFormatted,
-            usdValue: `$${network.nativeBalance.usdValue.toFixed(2)}`
+            usdValue: `$${network.nativeBalance.usdValue.toFixed(2)}`,
+            priceSource: network.nativeBalance.priceSource,
+            priceTime: this.formatPriceTime(network.nativeBalance.priceTimestamp),
+            pricedAgainst: this.formatPricedAgainst(network.nativeBalance.pricedAgainst)
           })
         }
       }
@@ -604,7 +796,11 @@ export class ExcelExporter {
       { header: 'Баланс', key: 'balance', width: 20 },
       { header: 'Децималы', key: 'decimals', width: 10 },
       { header: 'Цена (USD)', key: 'priceUsd', width: 15 },
-      { header: 'USD стоимость', key: 'usdValue', width: 20 }
+      { header: 'USD стоимость', key: 'usdValue', width: 20 },
+      { header: 'Источник цены', key: 'priceSource', width: 20 },
+      { header: 'Время цены', key: 'priceTime', width: 20 },
+      { header: 'Состав LP', key: 'lpBreakdown', width: 60 },
+      { header: 'Курс к базовому активу', key: 'conversion', width: 50 }
     ]
 
     // Собираем все токены из всех кошельков и сетей
@@ -637,7 +833,11 @@ export class ExcelExporter {
       balance: token.balanceFormatted,
       decimals: token.decimals,
       priceUsd: `$${parseFloat(token.priceUSD).toFixed(6)}`,
-      usdValue: `$${token.usdValue.toFixed(2)}`
+      usdValue: `$${token.usdValue.toFixed(2)}`,
+      priceSource: token.priceSource,
+      priceTime: this.formatPriceTime(token.priceTimestamp),
+      lpBreakdown: this.formatLpBreakdown(token.lpBreakdown),
+      conversion: this.formatConversion(token.symbol, token.conversion)
     }))
 
     worksheet.addRows(tokensData)
@@ -654,4 +854,207 @@ export class ExcelExporter {
     // Стилизация
     this.styleTokensSheet(worksheet)
   }
+
+  /**
+   * Создать лист с DeFi позициями (строка на каждый актив, долг и комиссию позиции)
+   */
+  private async createPositionsSheet (
+    wallets: AllNetworksBalanceResult[],
+    includeWallet: boolean
+  ): Promise<void> {
+    const worksheet = this.workbook.addWorksheet('Позиции')
+
+    // Заголовки
+    worksheet.columns = [
+      ...(includeWallet ? [{ header: 'Кошелек', key: 'wallet', width: 45 }] : []),
+      { header: 'Сеть', key: 'network', width: 20 },
+      { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Протокол', key: 'protocol', width: 15 },
+      { header: 'Позиция', key: 'name', width: 30 },
+      { header: 'Адрес контракта', key: 'contractAddress', width: 45 },
+      { header: 'Тип', key: 'type', width: 10 },
+      { header: 'Роль', key: 'role', width: 12 },
+      { header: 'Актив', key: 'symbol', width: 15 },
+      { header: 'Адрес актива', key: 'assetAddress', width: 45 },
+      { header: 'Количество', key: 'amount', width: 20 },
+      { header: 'USD стоимость', key: 'usdValue', width: 20 },
+      { header: 'Источник цены', key: 'priceSource', width: 20 },
+      { header: 'Стоимость позиции (USD)', key: 'positionUsdValue', width: 22 },
+      { header: 'Health factor', key: 'healthFactor', width: 14 },
+      { header: 'Риск ликвидации', key: 'atRisk', width: 16 },
+      { header: 'Подробности', key: 'details', width: 40 }
+    ]
+
+    // Данные
+    const positionsData = wallets.flatMap(wallet => wallet.networks.flatMap(network => network.positions.flatMap(position => [
+      ...position.assets.map(asset => ({ asset, role: 'Актив' })),
+      ...position.debts.map(asset => ({ asset, role: 'Долг' })),
+      ...position.fees.map(asset => ({ asset, role: 'Комиссии' }))
+    ].map(({ asset, role }) => ({
+      wallet: wallet.walletAddress,
+      network: network.networkName,
+      chainId: network.chainId,
+      protocol: position.protocol,
+      name: position.name,
+      contractAddress: position.contractAddress,
+      type: position.type,
+      role,
+      symbol: asset.symbol,
+      assetAddress: asset.address,
+      amount: asset.amountFormatted,
+      usdValue: `$${asset.usdValue.toFixed(2)}`,
+      priceSource: asset.priceSource,
+      positionUsdValue: `$${position.usdValue.toFixed(2)}`,
+      healthFactor: position.healthFactor === undefined ? '—' : position.healthFactor !== null ? position.healthFactor.toFixed(4) : '∞',
+      atRisk: position.atRisk ? 'ДА' : '',
+      details: Object.entries(position.details || {}).map(([key, value]) => `${key}: ${value}`).join('; ')
+    })))))
+
+    worksheet.addRows(positionsData)
+
+    // Стилизация
+    this.styleTokensSheet(worksheet)
+
+    // Займы с health factor ниже порога выделяем красным
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1 && row.getCell('atRisk').value === 'ДА') {
+        row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFC7CE' } }
+      }
+    })
+  }
+
+  /**
+   * Создать лист с NFT
+   */
+  private async createNftSheet (
+    wallets: AllNetworksBalanceResult[],
+    includeWallet: boolean
+  ): Promise<void> {
+    const worksheet = this.workbook.addWorksheet('NFT')
+
+    // Заголовки
+    worksheet.columns = [
+      ...(includeWallet ? [{ header: 'Кошелек', key: 'wallet', width: 45 }] : []),
+      { header: 'Сеть', key: 'network', width: 20 },
+      { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Коллекция', key: 'name', width: 30 },
+      { header: 'Адрес коллекции', key: 'collectionAddress', width: 45 },
+      { header: 'Стандарт', key: 'standard', width: 10 },
+      { header: 'Количество', key: 'balance', width: 12 },
+      { header: 'Token ID', key: 'tokenIds', width: 60 }
+    ]
+
+    // Данные
+    const nftData = wallets.flatMap(wallet => wallet.networks.flatMap(network => network.nftHoldings.map(holding => ({
+      wallet: wallet.walletAddress,
+      network: network.networkName,
+      chainId: network.chainId,
+      name: holding.name,
+      collectionAddress: holding.collectionAddress,
+      standard: holding.standard.toUpperCase(),
+      balance: holding.balance.toString(),
+      tokenIds: holding.standard === 'erc1155'
+        ? holding.tokens.map(token => `${token.tokenId} ×${token.amount}`).join(', ')
+        : holding.enumerated ? holding.tokens.map(token => token.tokenId).join(', ') : '—'
+    }))))
+
+    worksheet.addRows(nftData)
+
+    // Стилизация
+    this.styleTokensSheet(worksheet)
+  }
+
+  /**
+   * Создать лист с ошибками проверки (сети со статусом, отличным от ok)
+   */
+  private async createErrorsSheet (
+    wallets: AllNetworksBalanceResult[],
+    includeWallet: boolean
+  ): Promise<void> {
+    const worksheet = this.workbook.addWorksheet('Ошибки')
+
+    // Заголовки
+    worksheet.columns = [
+      ...(includeWallet ? [{ header: 'Кошелек', key: 'wallet', width: 45 }] : []),
+      { header: 'Сеть', key: 'network', width: 20 },
+      { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Статус', key: 'status', width: 14 },
+      { header: 'Класс ошибки', key: 'errorClass', width: 14 },
+      { header: 'Ошибка', key: 'errorMessage', width: 60 },
+      { header: 'Пакетов выполнено', key: 'batchesSucceeded', width: 18 },
+      { header: 'Пакетов с ошибкой', key: 'batchesFailed', width: 18 },
+      { header: 'Этапы с ошибкой', key: 'failedSteps', width: 50 },
+      { header: 'Учтено в итогах (USD)', key: 'totalUsdValue', width: 20 }
+    ]
+
+    // Данные
+    const errorsData = wallets.flatMap(wallet => wallet.networks.filter(network => network.status !== 'ok').map(network => ({
+      wallet: wallet.walletAddress,
+      network: network.networkName,
+      chainId: network.chainId,
+      status: NETWORK_STATUS_LABELS[network.status],
+      errorClass: network.errorClass || '',
+      errorMessage: network.errorMessage || '',
+      batchesSucceeded: network.batchesSucceeded,
+      batchesFailed: network.batchesFailed,
+      failedSteps: (network.failedSteps || []).map(failure => `${failure.step} (${failure.errorClass}): ${failure.message}`).join('\n'),
+      totalUsdValue: network.status === 'failed' ? 'неизвестно' : `$${network.totalUsdValue.toFixed(2)}`
+    })))
+
+    worksheet.addRows(errorsData)
+
+    // Стилизация
+    this.styleTokensSheet(worksheet)
+
+    // Непроверенные сети выделяем красным, неполные - желтым
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber > 1) {
+        const failed = row.getCell('status').value === NETWORK_STATUS_LABELS.failed
+        row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: failed ? 'FFFFC7CE' : 'FFFFEB9C' } }
+      }
+    })
+  }
+
+  /**
+   * Создать лист со скрытыми токенами (не входят в итоги)
+   */
+  private async createHiddenTokensSheet (
+    wallets: AllNetworksBalanceResult[],
+    includeWallet: boolean
+  ): Promise<void> {
+    const worksheet = this.workbook.addWorksheet('Скрытые токены')
+
+    // Заголовки
+    worksheet.columns = [
+      ...(includeWallet ? [{ header: 'Кошелек', key: 'wallet', width: 45 }] : []),
+      { header: 'Сеть', key: 'network', width: 20 },
+      { header: 'Chain ID', key: 'chainId', width: 10 },
+      { header: 'Адрес токена', key: 'tokenAddress', width: 45 },
+      { header: 'Символ', key: 'symbol', width: 15 },
+      { header: 'Название', key: 'name', width: 30 },
+      { header: 'Баланс', key: 'balance', width: 20 },
+      { header: 'USD стоимость', key: 'usdValue', width: 20 },
+      { header: 'Причина', key: 'reason', width: 15 },
+      { header: 'Подробности', key: 'details', width: 60 }
+    ]
+
+    // Данные
+    const hiddenData = wallets.flatMap(wallet => wallet.networks.flatMap(network => network.hiddenTokens.map(token => ({
+      wallet: wallet.walletAddress,
+      network: network.networkName,
+      chainId: network.chainId,
+      tokenAddress: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      balance: token.balanceFormatted,
+      usdValue: `$${token.usdValue.toFixed(2)}`,
+      reason: token.hiddenReason,
+      details: token.hiddenDetails
+    }))))
+
+    worksheet.addRows(hiddenData)
+
+    // Стилизация
+    this.styleTokensSheet(worksheet)
+  }
 }
@@ -12,7 +12,8 @@ async function main (): Promise<void> {
   console.log('=' .repeat(50))
 
   try {
-    const app = new BalanceCheckerApp()
+    // --offline: списки токенов только из кэша и снимков
+    const app = new BalanceCheckerApp(process.argv.includes('--offline'))
     await app.run()
   } catch (error) {
     console.error('❌ Критическая ошибка:', error instanceof Error ? error.message : 'Неизвестная ошибка')
@@ -0,0 +1,108 @@
+import { HttpRequestError } from 'viem'
+import type { FetchFn } from './proxy-transport.js'
+
+/**
+ * Один вызов в пакетном JSON-RPC запросе
+ */
+export interface JsonRpcCall {
+  method: string
+  params: unknown[]
+}
+
+/**
+ * Результат одного вызова из пакета
+ */
+export interface JsonRpcCallResult {
+  result?: unknown
+  error?: {
+    code: number
+    message: string
+  }
+}
+
+/**
+ * Итог пакетного запроса
+ *
+ * - ok: получены ответы на все вызовы
+ * - unsupported: endpoint явно отклонил пакет одной ошибкой на весь запрос
+ * - invalid: ответ не удалось разобрать (не JSON, неполный массив, чужие id) -
+ *   это не доказывает отсутствие поддержки пакетов, запрос можно повторить позже
+ */
+export type JsonRpcBatchOutcome =
+  | { status: 'ok'; results: JsonRpcCallResult[] }
+  | { status: 'unsupported'; reason: string }
+  | { status: 'invalid'; reason: string }
+
+/**
+ * Отправить пакетный JSON-RPC запрос (массив вызовов в одном HTTP запросе)
+ *
+ * Сетевые ошибки, 429 и 5xx пробрасываются как исключения.
+ */
+export async function sendJsonRpcBatch (
+  fetchFn: FetchFn,
+  rpcUrl: string,
+  calls: JsonRpcCall[],
+  timeout: number = 10000
+): Promise<JsonRpcBatchOutcome> {
+  if (calls.length === 0) {
+    return { status: 'ok', results: [] }
+  }
+
+  const body = calls.map((call, index) => ({
+    jsonrpc: '2.0',
+    id: index,
+    method: call.method,
+    params: call.params
+  }))
+
+  const response = await fetchFn(rpcUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeout)
+  })
+
+  // 429 и 5xx - ошибки endpoint, а не признак отсутствия пакетных запросов
+  if (response.status === 429 || response.status >= 500) {
+    throw new HttpRequestError({
+      url: rpcUrl,
+      status: response.status,
+      headers: response.headers,
+      details: response.statusText
+    })
+  }
+
+  let payload: unknown
+  try {
+    payload = await response.json()
+  } catch {
+    return { status: 'invalid', reason: `ответ не JSON (HTTP ${response.status})` }
+  }
+
+  // На массив вызовов endpoint без поддержки пакетов отвечает одной ошибкой
+  if (!Array.isArray(payload)) {
+    const error = (payload as { error?: { message?: unknown } } | null)?.error
+    return error
+      ? { status: 'unsupported', reason: typeof error.message === 'string' ? error.message : `HTTP ${response.status}` }
+      : { status: 'invalid', reason: 'ответ не является массивом' }
+  }
+
+  if (payload.length !== calls.length) {
+    return { status: 'invalid', reason: `получено ${payload.length} ответов на ${calls.length} вызовов` }
+  }
+
+  // Ответы могут прийти в любом порядке - сопоставляем по id
+  const results: JsonRpcCallResult[] = new Array(calls.length)
+  for (const item of payload as Array<{ id?: unknown; result?: unknown; error?: { code: number; message: string } }>) {
+    if (typeof item?.id !== 'number' || item.id < 0 || item.id >= calls.length) {
+      return { status: 'invalid', reason: 'ответ с неизвестным id' }
+    }
+    results[item.id] = item.error ? { error: item.error } : { result: item.result }
+  }
+
+  if (results.some(result => result === undefined)) {
+    return { status: 'invalid', reason: 'ответы на часть вызовов отсутствуют' }
+  }
+
+  return { status: 'ok', results }
+}
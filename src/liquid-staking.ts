@@ -0,0 +1,299 @@
+import * as fs from 'fs'
+import { encodeFunctionData, decodeFunctionResult, formatUnits, isAddress, parseAbi, Address } from 'viem'
+import { Multicall3Service, BalanceResult, PricedAgainst } from './multicall3-service.js'
+import type { RPCManager } from './rpc-manager.js'
+import type { PriceProvider, PriceQuote } from './price-providers.js'
+
+/**
+ * Файл реестра токенов ликвидного стейкинга
+ */
+export const LIQUID_STAKING_FILE = 'liquid-staking.json'
+
+/**
+ * Как прочитать курс токена в базовом активе (все методы возвращают курс с 18 знаками)
+ *
+ * stEthPerToken   - wstETH (Lido)
+ * getExchangeRate - rETH (Rocket Pool)
+ * exchangeRate    - cbETH (Coinbase)
+ * convertToAssets - хранилища ERC-4626 (sfrxETH и др.), вызывается с 1e18
+ * none            - токен 1:1 к базовому активу (stETH)
+ */
+export type RateMethod = 'stEthPerToken' | 'getExchangeRate' | 'exchangeRate' | 'convertToAssets' | 'none'
+
+/**
+ * Токен ликвидного стейкинга
+ *
+ * rateChainId/rateAddress - откуда читать курс, если у токена в сети его нет
+ * (мостовые wstETH, rETH, cbETH в L2 - курс читается из Ethereum).
+ * underlying - адрес базового актива в сети для оценки; без него токен
+ * оценивается по цене нативного токена сети.
+ */
+export interface LiquidStakingToken {
+  chainId: number
+  address: string
+  symbol: string
+  rateMethod: RateMethod
+  rateChainId?: number
+  rateAddress?: string
+  underlying?: string
+  underlyingSymbol?: string
+}
+
+/**
+ * Пересчет баланса в базовый актив (для строки токена в отчете)
+ */
+export interface TokenConversion {
+  rate: number // Базовых активов за 1 токен
+  underlyingSymbol: string
+  underlyingAmount: string
+  rateSource: string // Метод и контракт, из которого прочитан курс
+}
+
+/**
+ * ABI методов курса
+ */
+const RATE_ABI = parseAbi([
+  'function stEthPerToken() view returns (uint256)',
+  'function getExchangeRate() view returns (uint256)',
+  'function exchangeRate() view returns (uint256)',
+  'function convertToAssets(uint256 shares) view returns (uint256)'
+])
+
+const ONE = 10n ** 18n
+const WSTETH_MAINNET = '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0'
+const RETH_MAINNET = '0xae78736Cd615f374D3085123A210448E74Fc6393'
+const CBETH_MAINNET = '0xBe9895146f7AF43049ca1c1AE358B0541Ea49704'
+
+/**
+ * Встроенный реестр (дополняется и переопределяется файлом liquid-staking.json)
+ */
+export const DEFAULT_LIQUID_STAKING_TOKENS: LiquidStakingToken[] = [
+  { chainId: 1, address: WSTETH_MAINNET, symbol: 'wstETH', rateMethod: 'stEthPerToken' },
+  { chainId: 1, address: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84', symbol: 'stETH', rateMethod: 'none' },
+  { chainId: 1, address: RETH_MAINNET, symbol: 'rETH', rateMethod: 'getExchangeRate' },
+  { chainId: 1, address: CBETH_MAINNET, symbol: 'cbETH', rateMethod: 'exchangeRate' },
+  { chainId: 1, address: '0xac3E018457B222d93114458476f3E3416Abbe38F', symbol: 'sfrxETH', rateMethod: 'convertToAssets' },
+  { chainId: 10, address: '0x1F32b1c2345538c0c6f582fCB022739c4A194Ebb', symbol: 'wstETH', rateMethod: 'stEthPerToken', rateChainId: 1, rateAddress: WSTETH_MAINNET },
+  { chainId: 10, address: '0x9Bcef72be871e61ED4fBbc7630889beE758eb81D', symbol: 'rETH', rateMethod: 'getExchangeRate', rateChainId: 1, rateAddress: RETH_MAINNET },
+  { chainId: 10, address: '0xadDb6A0412DE1BA0F936DCaeb8Aaa24578dcF3B2', symbol: 'cbETH', rateMethod: 'exchangeRate', rateChainId: 1, rateAddress: CBETH_MAINNET },
+  { chainId: 137, address: '0x03b54A6e9a984069379fae1a4fC4dBAE93B3bCCD', symbol: 'wstETH', rateMethod: 'stEthPerToken', rateChainId: 1, rateAddress: WSTETH_MAINNET, underlying: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619', underlyingSymbol: 'WETH' },
+  { chainId: 8453, address: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452', symbol: 'wstETH', rateMethod: 'stEthPerToken', rateChainId: 1, rateAddress: WSTETH_MAINNET },
+  { chainId: 8453, address: '0xB6fe221Fe9EeF5aBa221c348bA20A1Bf5e73624c', symbol: 'rETH', rateMethod: 'getExchangeRate', rateChainId: 1, rateAddress: RETH_MAINNET },
+  { chainId: 8453, address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22', symbol: 'cbETH', rateMethod: 'exchangeRate', rateChainId: 1, rateAddress: CBETH_MAINNET },
+  { chainId: 42161, address: '0x5979D7b546E38E414F7E9822514be443A4800529', symbol: 'wstETH', rateMethod: 'stEthPerToken', rateChainId: 1, rateAddress: WSTETH_MAINNET },
+  { chainId: 42161, address: '0xEC70Dcb4A1EFa46b8F2D97C310C9c4790ba5ffA8', symbol: 'rETH', rateMethod: 'getExchangeRate', rateChainId: 1, rateAddress: RETH_MAINNET },
+  { chainId: 42161, address: '0x1DEBd73E752bEaF79865Fd6446b0c970EaE7732f', symbol: 'cbETH', rateMethod: 'exchangeRate', rateChainId: 1, rateAddress: CBETH_MAINNET }
+]
+
+const RATE_METHODS: RateMethod[] = ['stEthPerToken', 'getExchangeRate', 'exchangeRate', 'convertToAssets', 'none']
+
+/**
+ * Загрузить реестр токенов ликвидного стейкинга
+ *
+ * Записи файла добавляются к встроенным; запись с тем же chainId и адресом
+ * заменяет встроенную. Ошибки всех записей собираются в одно исключение.
+ */
+export function loadLiquidStakingTokens (filePath: string = LIQUID_STAKING_FILE): LiquidStakingToken[] {
+  if (!fs.existsSync(filePath)) {
+    return DEFAULT_LIQUID_STAKING_TOKENS
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  }
+
+  const tokens = (parsed as { tokens?: unknown })?.tokens
+  if (!Array.isArray(tokens)) {
+    throw new Error(`Некорректный формат ${filePath}: ожидается объект с массивом "tokens"`)
+  }
+
+  const errors: string[] = []
+  const isChainId = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value > 0
+  tokens.forEach((token: Partial<LiquidStakingToken>, index) => {
+    const context = `токен #${index + 1}`
+    if (!isChainId(token?.chainId)) {
+      errors.push(`${context}: некорректный chainId`)
+    }
+    if (typeof token?.address !== 'string' || !isAddress(token.address, { strict: false })) {
+      errors.push(`${context}: некорректный адрес "${token?.address}"`)
+    }
+    if (typeof token?.symbol !== 'string' || !token.symbol) {
+      errors.push(`${context}: обязательно поле symbol`)
+    }
+    if (!RATE_METHODS.includes(token?.rateMethod as RateMethod)) {
+      errors.push(`${context}: неизвестный rateMethod "${token?.rateMethod}" (ожидается ${RATE_METHODS.join(', ')})`)
+    }
+    if (token?.rateChainId !== undefined && !isChainId(token.rateChainId)) {
+      errors.push(`${context}: некорректный rateChainId`)
+    }
+    for (const field of ['rateAddress', 'underlying'] as const) {
+      if (token?.[field] !== undefined && !isAddress(String(token[field]), { strict: false })) {
+        errors.push(`${context}: некорректный ${field} "${token[field]}"`)
+      }
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Ошибки в ${filePath}:\n  - ${errors.join('\n  - ')}`)
+  }
+
+  const merged = new Map(DEFAULT_LIQUID_STAKING_TOKENS.map(token => [`${token.chainId}:${token.address.toLowerCase()}`, token]))
+  for (const token of tokens as LiquidStakingToken[]) {
+    merged.set(`${token.chainId}:${token.address.toLowerCase()}`, token)
+  }
+
+  console.log(`🥩 Загружен реестр токенов ликвидного стейкинга из ${filePath}: ${tokens.length}`)
+  return [...merged.values()]
+}
+
+/**
+ * Оценка токенов ликвидного стейкинга через курс к базовому активу
+ *
+ * Курс читается из контракта через Multicall3Service.executeCalls на блоке
+ * снимка. Курс из другой сети для исторического снимка читается на блоке
+ * этой сети с тем же временем, что и блок снимка, для текущего - на
+ * последнем блоке; прочитанные курсы из других сетей кэшируются. Баланс
+ * пересчитывается в базовый актив, который оценивается обычным путем:
+ * нативный токен - как нативный баланс сети, underlying - через источник цен.
+ */
+export class LiquidStakingValuator {
+  private readonly rpcManager: RPCManager
+  private readonly multicallService: Multicall3Service
+  private readonly priceProvider: PriceProvider
+  private readonly tokens: LiquidStakingToken[]
+  private crossChainRates = new Map<string, bigint>() // Прочитанные курсы из других сетей (по блоку)
+
+  constructor (
+    rpcManager: RPCManager,
+    multicallService: Multicall3Service,
+    priceProvider: PriceProvider,
+    tokens: LiquidStakingToken[] = loadLiquidStakingTokens()
+  ) {
+    this.rpcManager = rpcManager
+    this.multicallService = multicallService
+    this.priceProvider = priceProvider
+    this.tokens = tokens
+  }
+
+  /**
+   * Блок сети курса с тем же временем, что и блок снимка в сети токена
+   */
+  private async findRateBlock (chainId: number, rateChainId: number, blockNumber: bigint): Promise<bigint> {
+    const timestamp = await this.rpcManager.getBlockTimestamp(chainId, blockNumber)
+    return await this.rpcManager.findBlockByTimestamp(rateChainId, Number(timestamp))
+  }
+
+  /**
+   * Прочитать курс токена
+   *
+   * rate null - контракт не вернул курс. Ошибки RPC не перехватываются:
+   * их записывает вызывающий как неудачный этап проверки.
+   */
+  private async readRate (
+    chainId: number,
+    token: LiquidStakingToken,
+    blockNumber: bigint | undefined,
+    historical: boolean
+  ): Promise<{ rate: bigint | null; rateBlock?: bigint }> {
+    if (token.rateMethod === 'none') {
+      return { rate: ONE }
+    }
+
+    const rateChainId = token.rateChainId ?? chainId
+    const rateAddress = (token.rateAddress ?? token.address) as Address
+    const crossChain = rateChainId !== chainId
+    const rateBlock = !crossChain
+      ? blockNumber
+      : historical && blockNumber !== undefined ? await this.findRateBlock(chainId, rateChainId, blockNumber) : undefined
+    const cacheKey = `${rateChainId}:${rateAddress.toLowerCase()}:${token.rateMethod}:${rateBlock ?? 'latest'}`
+    const cached = crossChain ? this.crossChainRates.get(cacheKey) : undefined
+    if (cached !== undefined) {
+      return { rate: cached, ...(rateBlock !== undefined && { rateBlock }) }
+    }
+
+    const callData = token.rateMethod === 'convertToAssets'
+      ? encodeFunctionData({ abi: RATE_ABI, functionName: 'convertToAssets', args: [ONE] })
+      : encodeFunctionData({ abi: RATE_ABI, functionName: token.rateMethod })
+
+    const [result] = await this.multicallService.executeCalls(rateChainId, [{ target: rateAddress, allowFailure: true, callData }], rateBlock)
+    const rate = this.multicallService.decodeResult(result, data => decodeFunctionResult({ abi: RATE_ABI, functionName: token.rateMethod as Exclude<RateMethod, 'none'>, data }))
+    if (rate === null) {
+      console.warn(`⚠️ Контракт ${rateAddress} в сети ${rateChainId} не вернул курс ${token.symbol} (${token.rateMethod})`)
+    } else if (crossChain) {
+      this.crossChainRates.set(cacheKey, rate)
+    }
+    return { rate, ...(rateBlock !== undefined && { rateBlock }) }
+  }
+
+  /**
+   * Цена базового актива токена
+   */
+  private async getUnderlyingPrice (
+    chainId: number,
+    token: LiquidStakingToken
+  ): Promise<{ quote: PriceQuote; pricedAgainst: PricedAgainst } | null> {
+    if (!token.underlying) {
+      return await this.multicallService.getNativePrice(chainId)
+    }
+
+    const quote = (await this.priceProvider.getPrices(chainId, [token.underlying])).get(token.underlying.toLowerCase())
+    return quote
+      ? { quote, pricedAgainst: { address: token.underlying, symbol: token.underlyingSymbol || token.underlying, match: 'token' } }
+      : null
+  }
+
+  /**
+   * Пересчитать токены ликвидного стейкинга среди балансов
+   *
+   * Возвращает тот же список, в котором такие токены получили conversion и
+   * стоимость по курсу. Если контракт не вернул курс или нет цены базового
+   * актива, токен остается с исходной оценкой; ошибка RPC пробрасывается.
+   * historical - снимок на прошлый блок: курс из другой сети читается на
+   * соответствующем блоке той сети.
+   */
+  async valueStakingTokens (chainId: number, balances: BalanceResult[], blockNumber?: bigint, historical: boolean = false): Promise<BalanceResult[]> {
+    const registry = new Map(this.tokens
+      .filter(token => token.chainId === chainId)
+      .map(token => [token.address.toLowerCase(), token]))
+    if (registry.size === 0) {
+      return balances
+    }
+
+    return await Promise.all(balances.map(async (balance) => {
+      const token = registry.get(balance.address.toLowerCase())
+      if (!token || balance.balance === 0n) {
+        return balance
+      }
+
+      const { rate: rateRaw, rateBlock } = await this.readRate(chainId, token, blockNumber, historical)
+      const price = rateRaw !== null ? await this.getUnderlyingPrice(chainId, token) : null
+      if (rateRaw === null || !price) {
+        return balance
+      }
+
+      const rate = parseFloat(formatUnits(rateRaw, 18))
+      const underlyingAmount = parseFloat(balance.balanceFormatted) * rate
+      const rateSource = token.rateMethod === 'none'
+        ? '1:1'
+        : `${token.rateMethod} @ ${token.rateChainId ?? chainId}:${token.rateAddress ?? token.address}${token.rateChainId !== undefined && token.rateChainId !== chainId ? ` (блок ${rateBlock ?? 'последний'})` : ''}`
+
+      return {
+        ...balance,
+        usdValue: underlyingAmount * price.quote.priceUSD,
+        priceUSD: (rate * price.quote.priceUSD).toString(),
+        priceSource: price.quote.source,
+        priceTimestamp: price.quote.timestamp,
+        pricedAgainst: price.pricedAgainst,
+        conversion: {
+          rate,
+          underlyingSymbol: token.underlyingSymbol || (token.underlying ? price.pricedAgainst.symbol : this.rpcManager.getNetworkConfig(chainId)?.nativeCurrency.symbol || price.pricedAgainst.symbol),
+          underlyingAmount: underlyingAmount.toString(),
+          rateSource
+        }
+      }
+    }))
+  }
+}
@@ -0,0 +1,188 @@
+import { encodeFunctionData, decodeFunctionResult, Address } from 'viem'
+import { Multicall3Service, Call3, BalanceResult, NO_PRICE_SOURCE } from './multicall3-service.js'
+import type { PriceProvider } from './price-providers.js'
+import type { TokenMetadataLookup } from './token-metadata-resolver.js'
+import { PositionAsset, valuePositionAssets } from './positions.js'
+
+/**
+ * Источник цены LP токена, оцененного по базовым активам
+ */
+export const LP_PRICE_SOURCE = 'lp'
+
+/**
+ * ABI пары Uniswap V2 (и форков: SushiSwap, PancakeSwap и др.)
+ */
+export const UNISWAP_V2_PAIR_ABI = [
+  {
+    'inputs': [],
+    'name': 'token0',
+    'outputs': [
+      { 'internalType': 'address', 'name': '', 'type': 'address' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [],
+    'name': 'token1',
+    'outputs': [
+      { 'internalType': 'address', 'name': '', 'type': 'address' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [],
+    'name': 'getReserves',
+    'outputs': [
+      { 'internalType': 'uint112', 'name': '_reserve0', 'type': 'uint112' },
+      { 'internalType': 'uint112', 'name': '_reserve1', 'type': 'uint112' },
+      { 'internalType': 'uint32', 'name': '_blockTimestampLast', 'type': 'uint32' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [],
+    'name': 'totalSupply',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': '', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * Разложение LP токена на базовые активы
+ */
+export interface LpBreakdown {
+  poolShare: number // Доля кошелька в пуле (0..1)
+  underlying: PositionAsset[] // token0 и token1 в пропорции доли
+}
+
+/**
+ * Пара, распознанная по ответам контракта
+ */
+interface PairState {
+  token: BalanceResult
+  token0: Address
+  token1: Address
+  reserve0: bigint
+  reserve1: bigint
+  totalSupply: bigint
+}
+
+/**
+ * Оценка LP токенов пар Uniswap V2 по базовым активам
+ *
+ * Токен считается LP токеном, если отвечает на token0(), token1(),
+ * getReserves() и totalSupply() - все вызовы идут через
+ * Multicall3Service.executeCallsInBatches. Доля кошелька раскладывается на token0 и
+ * token1, которые оцениваются обычным источником цен, а стоимость LP токена
+ * заменяется суммой базовых активов.
+ */
+export class LpTokenValuator {
+  private readonly multicallService: Multicall3Service
+  private readonly resolveMetadata: TokenMetadataLookup
+  private readonly priceProvider: PriceProvider
+
+  constructor (multicallService: Multicall3Service, resolveMetadata: TokenMetadataLookup, priceProvider: PriceProvider) {
+    this.multicallService = multicallService
+    this.resolveMetadata = resolveMetadata
+    this.priceProvider = priceProvider
+  }
+
+  /**
+   * Найти среди токенов пары Uniswap V2
+   */
+  private async detectPairs (chainId: number, tokens: BalanceResult[], blockNumber?: bigint): Promise<PairState[]> {
+    const pairs: PairState[] = []
+    const calls: Call3[] = tokens.flatMap(token => (['token0', 'token1', 'getReserves', 'totalSupply'] as const).map(functionName => ({
+      target: token.address as Address,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: UNISWAP_V2_PAIR_ABI, functionName })
+    })))
+    const results = await this.multicallService.executeCallsInBatches(chainId, calls, blockNumber)
+
+    tokens.forEach((token, index) => {
+      const offset = index * 4
+      const token0 = this.multicallService.decodeResult(results[offset], data => decodeFunctionResult({ abi: UNISWAP_V2_PAIR_ABI, functionName: 'token0', data }))
+      const token1 = this.multicallService.decodeResult(results[offset + 1], data => decodeFunctionResult({ abi: UNISWAP_V2_PAIR_ABI, functionName: 'token1', data }))
+      const reserves = this.multicallService.decodeResult(results[offset + 2], data => decodeFunctionResult({ abi: UNISWAP_V2_PAIR_ABI, functionName: 'getReserves', data }))
+      const totalSupply = this.multicallService.decodeResult(results[offset + 3], data => decodeFunctionResult({ abi: UNISWAP_V2_PAIR_ABI, functionName: 'totalSupply', data }))
+
+      if (token0 && token1 && reserves && totalSupply && totalSupply > 0n) {
+        pairs.push({ token, token0, token1, reserve0: reserves[0], reserve1: reserves[1], totalSupply })
+      }
+    })
+
+    return pairs
+  }
+
+  /**
+   * Оценить LP токены среди балансов
+   *
+   * Возвращает тот же список, в котором LP токены получили lpBreakdown и
+   * стоимость по базовым активам. Остальные токены не меняются.
+   */
+  async valueLpTokens (chainId: number, tokens: BalanceResult[], blockNumber?: bigint): Promise<BalanceResult[]> {
+    const pairs = await this.detectPairs(chainId, tokens.filter(token => token.balance > 0n), blockNumber)
+    if (pairs.length === 0) {
+      return tokens
+    }
+
+    const underlyingAddresses = [...new Set(pairs.flatMap(pair => [pair.token0.toLowerCase(), pair.token1.toLowerCase()]))]
+    const metadata = await this.resolveMetadata(chainId, underlyingAddresses)
+
+    const valued = new Map<BalanceResult, BalanceResult>()
+    for (const pair of pairs) {
+      const metadata0 = metadata.get(pair.token0.toLowerCase())
+      const metadata1 = metadata.get(pair.token1.toLowerCase())
+      if (!metadata0 || !metadata1) {
+        console.warn(`⚠️ LP ${pair.token.symbol} (${pair.token.address}) в сети ${chainId}: нет метаданных базовых токенов`)
+        continue
+      }
+
+      const { token } = pair
+      const underlying = await valuePositionAssets(this.priceProvider, chainId, [
+        { address: pair.token0, metadata: metadata0, amount: pair.reserve0 * token.balance / pair.totalSupply },
+        { address: pair.token1, metadata: metadata1, amount: pair.reserve1 * token.balance / pair.totalSupply }
+      ])
+      const priced = underlying.filter(asset => asset.priceSource !== NO_PRICE_SOURCE)
+      const lpBreakdown = {
+        poolShare: Number(token.balance * 1_000_000n / pair.totalSupply) / 1_000_000,
+        underlying
+      }
+
+      // Ни один базовый актив не оценен - остается исходная цена LP токена
+      if (priced.length === 0) {
+        valued.set(token, { ...token, lpBreakdown })
+        continue
+      }
+
+      // Оценена одна сторона: резервы пары равны по стоимости, поэтому
+      // вторая сторона оценивается по первой (источник lp)
+      if (priced.length === 1) {
+        const unpriced = underlying.findIndex(asset => asset.priceSource === NO_PRICE_SOURCE)
+        underlying[unpriced] = { ...underlying[unpriced]!, usdValue: priced[0]!.usdValue, priceSource: LP_PRICE_SOURCE, priceTimestamp: priced[0]!.priceTimestamp }
+      }
+
+      const usdValue = underlying.reduce((sum, asset) => sum + asset.usdValue, 0)
+      const balance = parseFloat(token.balanceFormatted)
+      const timestamps = priced.flatMap(asset => asset.priceTimestamp !== null ? [asset.priceTimestamp] : [])
+
+      valued.set(token, {
+        ...token,
+        usdValue,
+        priceUSD: balance > 0 ? (usdValue / balance).toString() : '0',
+        priceSource: LP_PRICE_SOURCE,
+        priceTimestamp: timestamps.length > 0 ? Math.min(...timestamps) : null, // Самая старая из цен базовых активов
+        pricedAgainst: null,
+        lpBreakdown
+      })
+    }
+
+    return tokens.map(token => valued.get(token) ?? token)
+  }
+}
@@ -1,6 +1,13 @@
-import { encodeFunctionData, decodeFunctionResult, Address } from 'viem'
-import { RPCManager } from './rpc-manager.js'
+import { encodeFunctionData, decodeFunctionData, decodeFunctionResult, toHex, pad, toFunctionSelector, Address } from 'viem'
+import { RPCManager, NetworkConfig } from './rpc-manager.js'
+import { classifyRPCError, describeRPCError, RPCErrorInfo } from './rpc-errors.js'
+import { JsonRpcCall } from './json-rpc-batch.js'
 import { TokenInfo, TokenListManager } from './token-list-manager.js'
+import { PriceProvider, PriceQuote, LiFiPriceProvider } from './price-providers.js'
+import { NATIVE_TOKEN_ADDRESSES } from './token-sources.js'
+import { ScanBudget, DEFAULT_SCAN_BUDGET, planWalletScan } from './scan-planner.js'
+import type { LpBreakdown } from './lp-valuation.js'
+import type { TokenConversion } from './liquid-staking.js'
 
 /**
  * ABI для Multicall3 контракта
@@ -108,6 +115,25 @@ export interface MulticallResult {
   returnData: `0x${string}`
 }
 
+/**
+ * Как найдена цена баланса
+ *
+ * token   - цена самого токена
+ * native  - запись нативного токена в списке (0x0000... или 0xEeee...)
+ * wrapped - wrapped-версия нативного токена (WETH, WBNB...)
+ * coinKey - токен списка с coinKey из настроек сети (nativeCoinKey)
+ */
+export type PriceMatch = 'token' | 'native' | 'wrapped' | 'coinKey'
+
+/**
+ * Токен, по цене которого оценен баланс
+ */
+export interface PricedAgainst {
+  address: string
+  symbol: string
+  match: PriceMatch
+}
+
 /**
  * Результат проверки баланса
  */
@@ -120,6 +146,11 @@ export interface BalanceResult {
   decimals: number
   usdValue: number
   priceUSD: string
+  priceSource: string // Источник цены ('none' - цена не найдена)
+  priceTimestamp: number | null // Время цены (ms)
+  pricedAgainst: PricedAgainst | null
+  lpBreakdown?: LpBreakdown // Для LP токенов: разложение на базовые активы
+  conversion?: TokenConversion // Для токенов ликвидного стейкинга: пересчет в базовый актив
 }
 
 /**
@@ -130,18 +161,78 @@ export interface NativeBalanceResult {
   balanceFormatted: string
   symbol: string
   usdValue: number
+  priceSource: string
+  priceTimestamp: number | null
+  pricedAgainst: PricedAgainst | null
 }
 
+/**
+ * Итоги пакетов запросов балансов токенов
+ */
+export interface BatchStats {
+  succeeded: number
+  failed: number
+  error: RPCErrorInfo | null // Ошибка первого упавшего пакета
+}
+
+/**
+ * Балансы токенов кошелька в сети и итоги пакетов
+ */
+export interface TokenBalancesScan {
+  balances: BalanceResult[]
+  batches: BatchStats
+}
+
+/**
+ * Балансы одного кошелька в сети (nativeBalance null - нативный баланс не получен)
+ */
+export interface WalletBalances {
+  nativeBalance: NativeBalanceResult | null
+  nativeError: RPCErrorInfo | null // Почему не получен нативный баланс
+  tokenBalances: BalanceResult[]
+  batches: BatchStats
+}
+
+/**
+ * Источник цены для балансов без цены
+ */
+export const NO_PRICE_SOURCE = 'none'
+
+/**
+ * Селектор getEthBalance(address) - в сетях без Multicall3 заменяется на eth_getBalance
+ */
+const GET_ETH_BALANCE_SELECTOR = toFunctionSelector('getEthBalance(address)')
+
+/**
+ * Ошибки JSON-RPC отдельного вызова, при которых узел не выполнил вызов
+ * (лимит запросов, таймаут, нет состояния блока) - в отличие от revert
+ * контракта результат такого вызова неизвестен, а не пустой
+ */
+const NODE_FAILURE_PATTERN = /rate limit|limit exceeded|too many requests|timeout|timed out|header not found|missing trie node|unknown block/i
+
+/**
+ * Код JSON-RPC ошибки "limit exceeded"
+ */
+const LIMIT_EXCEEDED_CODE = -32005
+
 /**
  * Сервис для работы с Multicall3
  */
 export class Multicall3Service {
   private rpcManager: RPCManager
   private tokenListManager: TokenListManager
-
-  constructor (rpcManager: RPCManager, tokenListManager: TokenListManager) {
+  private priceProvider: PriceProvider
+  private readonly SINGLE_CALL_CONCURRENCY = 8 // Параллельных одиночных вызовов без Multicall3 и пакетов
+  private readonly CALLS_PER_BATCH = 300 // Вызовов в одном запросе executeCallsInBatches
+
+  constructor (
+    rpcManager: RPCManager,
+    tokenListManager: TokenListManager,
+    priceProvider: PriceProvider = new LiFiPriceProvider(tokenListManager)
+  ) {
     this.rpcManager = rpcManager
     this.tokenListManager = tokenListManager
+    this.priceProvider = priceProvider
   }
 
   /**
@@ -162,17 +253,195 @@ export class Multicall3Service {
   }
 
   /**
-   * Выполнить Multicall3 запрос с таймаутом
+   * Создать вызов getEthBalance к Multicall3 (нативный баланс кошелька)
+   */
+  private createNativeBalanceCall (multicallAddress: Address, walletAddress: Address): Call3 {
+    return {
+      target: multicallAddress,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: MULTICALL3_ABI, functionName: 'getEthBalance', args: [walletAddress] })
+    }
+  }
+
+  /**
+   * Разобрать результат вызова (null - вызов не удался или ответ не разбирается)
+   */
+  decodeResult<T> (result: MulticallResult | undefined, decoder: (data: `0x${string}`) => T): T | null {
+    if (!result?.success || result.returnData === '0x') {
+      return null
+    }
+    try {
+      return decoder(result.returnData)
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Разобрать результат balanceOf/getEthBalance (null - вызов не удался)
+   */
+  private decodeBalance (result: MulticallResult | undefined): bigint | null {
+    return this.decodeResult(result, data => decodeFunctionResult({ abi: ERC20_ABI, functionName: 'balanceOf', data }))
+  }
+
+  /**
+   * Выполнить набор вызовов в сети
+   *
+   * Если Multicall3 развернут - один запрос aggregate3. Иначе пакетный JSON-RPC
+   * запрос eth_call/eth_getBalance, а если endpoint не поддерживает пакеты -
+   * одиночные вызовы с ограниченным параллелизмом. Результаты во всех режимах
+   * возвращаются в формате Multicall3 (allowFailure).
+   */
+  async executeCalls (
+    chainId: number,
+    calls: Call3[],
+    blockNumber?: bigint
+  ): Promise<MulticallResult[]> {
+    if (calls.length === 0) {
+      return []
+    }
+
+    if (await this.rpcManager.probeMulticall3(chainId)) {
+      return await this.executeMulticall(chainId, calls, blockNumber)
+    }
+
+    const blockTag = blockNumber !== undefined ? toHex(blockNumber) : 'latest'
+    const batchResults = await this.rpcManager.executeBatch(
+      chainId,
+      calls.map(call => this.toJsonRpcCall(call, blockTag))
+    )
+
+    if (!batchResults) {
+      return await this.executeSingleCalls(chainId, calls, blockTag)
+    }
+
+    const results = batchResults.map((result, index) =>
+      this.toMulticallResult(calls[index]!, result.error ? null : result.result)
+    )
+
+    // Вызовы, которые узел не выполнил (а не revert), повторяем по одному -
+    // если они снова не выполнятся, executeSingleCalls выбросит ошибку
+    const retryIndexes = batchResults.flatMap((result, index) =>
+      result.error && (result.error.code === LIMIT_EXCEEDED_CODE || NODE_FAILURE_PATTERN.test(result.error.message)) ? [index] : []
+    )
+    if (retryIndexes.length > 0) {
+      const retried = await this.executeSingleCalls(chainId, retryIndexes.map(index => calls[index]!), blockTag)
+      retryIndexes.forEach((index, i) => { results[index] = retried[i]! })
+    }
+
+    return results
+  }
+
+  /**
+   * Выполнить большой набор вызовов частями (по CALLS_PER_BATCH в запросе)
+   *
+   * Результаты возвращаются в порядке вызовов, как у executeCalls.
+   */
+  async executeCallsInBatches (
+    chainId: number,
+    calls: Call3[],
+    blockNumber?: bigint
+  ): Promise<MulticallResult[]> {
+    const results: MulticallResult[] = []
+    for (let i = 0; i < calls.length; i += this.CALLS_PER_BATCH) {
+      results.push(...await this.executeCalls(chainId, calls.slice(i, i + this.CALLS_PER_BATCH), blockNumber))
+    }
+    return results
+  }
+
+  /**
+   * Является ли вызов запросом getEthBalance к Multicall3
+   */
+  private isNativeBalanceCall (call: Call3): boolean {
+    return call.callData.slice(0, 10).toLowerCase() === GET_ETH_BALANCE_SELECTOR
+  }
+
+  /**
+   * Преобразовать вызов Multicall3 в отдельный JSON-RPC вызов
+   */
+  private toJsonRpcCall (call: Call3, blockTag: string): JsonRpcCall {
+    if (this.isNativeBalanceCall(call)) {
+      const { args } = decodeFunctionData({ abi: MULTICALL3_ABI, data: call.callData })
+      return { method: 'eth_getBalance', params: [args[0], blockTag] }
+    }
+    return { method: 'eth_call', params: [{ to: call.target, data: call.callData }, blockTag] }
+  }
+
+  /**
+   * Привести ответ отдельного вызова к формату результата Multicall3
+   */
+  private toMulticallResult (call: Call3, result: unknown): MulticallResult {
+    if (typeof result !== 'string') {
+      return { success: false, returnData: '0x' }
+    }
+    // eth_getBalance возвращает quantity - дополняем до uint256, как getEthBalance
+    const returnData = this.isNativeBalanceCall(call)
+      ? pad(result as `0x${string}`, { size: 32 })
+      : result as `0x${string}`
+    return { success: true, returnData }
+  }
+
+  /**
+   * Выполнить вызовы по одному с ограниченным параллелизмом
+   *
+   * Revert отдельного вызова не считается ошибкой endpoint и дает success: false.
+   * Если вызов не удалось выполнить ни на одном endpoint (сеть, лимиты, таймаут),
+   * выбрасывается ошибка: нулевой результат вместо неизвестного исказил бы балансы.
+   */
+  private async executeSingleCalls (
+    chainId: number,
+    calls: Call3[],
+    blockTag: string
+  ): Promise<MulticallResult[]> {
+    const results: MulticallResult[] = new Array(calls.length)
+    let nextIndex = 0
+    let failure: unknown = null
+
+    const worker = async (): Promise<void> => {
+      while (failure === null && nextIndex < calls.length) {
+        const index = nextIndex++
+        const call = calls[index]!
+        const { method, params } = this.toJsonRpcCall(call, blockTag)
+
+        try {
+          const result = await this.rpcManager.execute(chainId, async (client) => {
+            try {
+              return await client.request({ method, params } as never) as unknown
+            } catch (error) {
+              if (classifyRPCError(error) === 'rpc_error' && !(error instanceof Error && NODE_FAILURE_PATTERN.test(error.message))) {
+                return null
+              }
+              throw error
+            }
+          })
+          results[index] = this.toMulticallResult(call, result)
+        } catch (error) {
+          failure ??= error
+        }
+      }
+    }
+
+    const workers = Array.from({ length: Math.min(this.SINGLE_CALL_CONCURRENCY, calls.length) }, () => worker())
+    await Promise.all(workers)
+
+    if (failure !== null) {
+      throw new Error(`Ошибка при выполнении вызовов в сети ${chainId}: ${failure instanceof Error ? failure.message : 'Неизвестная ошибка'}`, { cause: failure })
+    }
+
+    return results
+  }
+
+  /**
+   * Выполнить Multicall3 запрос с таймаутом через пул RPC сети
+   *
+   * Если передан blockNumber, запрос выполняется на этом блоке, иначе на 'latest'.
    */
   private async executeMulticall (
     chainId: number,
     calls: Call3[],
-    rpcUrl?: string,
+    blockNumber?: bigint,
     timeout: number = 10000
   ): Promise<MulticallResult[]> {
-    const client = rpcUrl
-      ? await this.rpcManager.getClientWithRPC(chainId, rpcUrl)
-      : await this.rpcManager.getClient(chainId)
     const networkConfig = this.rpcManager.getNetworkConfig(chainId)
 
     if (!networkConfig) {
@@ -180,39 +449,39 @@ export class Multicall3Service {
     }
 
     try {
-      // Создаем промис с таймаутом
-      const multicallPromise = client.request({
-        method: 'eth_call',
-        params: [
-          {
-            to: networkConfig.multicallAddress as `0x${string}`,
-            data: encodeFunctionData({
-              abi: MULTICALL3_ABI,
-              functionName: 'aggregate3',
-              args: [calls]
-            })
-          },
-          'latest'
-        ]
-      }) as Promise<string>
-
-      // Добавляем таймаут
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        globalThis.setTimeout(() => reject(new Error(`Multicall3 запрос превысил таймаут ${timeout}ms`)), timeout)
-      })
-
-      const result = await Promise.race([multicallPromise, timeoutPromise])
+      return await this.rpcManager.execute(chainId, async (client) => {
+        // Создаем промис с таймаутом
+        const multicallPromise = client.request({
+          method: 'eth_call',
+          params: [
+            {
+              to: networkConfig.multicallAddress as `0x${string}`,
+              data: encodeFunctionData({
+                abi: MULTICALL3_ABI,
+                functionName: 'aggregate3',
+                args: [calls]
+              })
+            },
+            blockNumber !== undefined ? toHex(blockNumber) : 'latest'
+          ]
+        }) as Promise<string>
+
+        // Добавляем таймаут
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          globalThis.setTimeout(() => reject(new Error(`Multicall3 запрос превысил таймаут ${timeout}ms`)), timeout)
+        })
 
-      // Декодируем результат
-      const decoded = decodeFunctionResult({
-        abi: MULTICALL3_ABI,
-        functionName: 'aggregate3',
-        data: result as `0x${string}`
-      }) as MulticallResult[]
+        const result = await Promise.race([multicallPromise, timeoutPromise])
 
-      return decoded
+        // Декодируем результат
+        return decodeFunctionResult({
+          abi: MULTICALL3_ABI,
+          functionName: 'aggregate3',
+          data: result as `0x${string}`
+        }) as MulticallResult[]
+      })
     } catch (error) {
-      throw new Error(`Ошибка при выполнении Multicall3 для сети ${chainId}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+      throw new Error(`Ошибка при выполнении Multicall3 для сети ${chainId}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`, { cause: error })
     }
   }
 
@@ -222,26 +491,32 @@ export class Multicall3Service {
   async checkTokenBalances (
     chainId: number,
     walletAddress: Address,
-    tokens: TokenInfo[]
-  ): Promise<BalanceResult[]> {
+    tokens: TokenInfo[],
+    blockNumber?: bigint
+  ): Promise<TokenBalancesScan> {
     if (tokens.length === 0) {
-      return []
+      return { balances: [], batches: { succeeded: 0, failed: 0, error: null } }
     }
 
     // Автоматически используем батчинг для всех сетей
-    return await this.checkTokenBalancesBatched(chainId, walletAddress, tokens)
+    return await this.checkTokenBalancesBatched(chainId, walletAddress, tokens, blockNumber)
   }
 
   /**
-   * Проверка балансов токенов с батчингом и ротацией RPC
+   * Проверка балансов токенов с батчингом через пул RPC
+   *
+   * Упавший батч не прерывает проверку, но учитывается в итогах пакетов,
+   * чтобы недоступный RPC не выглядел как пустой кошелек.
    */
   async checkTokenBalancesBatched (
     chainId: number,
     walletAddress: Address,
-    tokens: TokenInfo[]
-  ): Promise<BalanceResult[]> {
+    tokens: TokenInfo[],
+    blockNumber?: bigint
+  ): Promise<TokenBalancesScan> {
+    const batchStats: BatchStats = { succeeded: 0, failed: 0, error: null }
     if (tokens.length === 0) {
-      return []
+      return { balances: [], batches: batchStats }
     }
 
     // Динамический размер батча в зависимости от количества токенов
@@ -253,7 +528,6 @@ export class Multicall3Service {
     }
 
     const batches = this.createBatches(tokens, batchSize)
-    const rpcUrls = this.rpcManager.getNetworkConfig(chainId)?.rpcUrls || []
 
     // Ограничиваем количество параллельных батчей для предотвращения перегрузки
     const MAX_CONCURRENT_BATCHES = 6
@@ -267,15 +541,18 @@ export class Multicall3Service {
         if (!batch) return []
 
         try {
-          const batchResult = await this.checkSingleBatchWithRPCRotation(
+          const batchResult = await this.executeBalanceMulticall(
             chainId,
             walletAddress,
             batch,
-            rpcUrls
+            blockNumber
           )
+          batchStats.succeeded++
           return batchResult
-        } catch {
-          // Возвращаем пустой массив для упавшего батча
+        } catch (error) {
+          // Возвращаем пустой массив для упавшего батча и запоминаем ошибку
+          batchStats.failed++
+          batchStats.error ??= describeRPCError(error)
           return []
         }
       })
@@ -291,15 +568,16 @@ export class Multicall3Service {
       results.push(...batchResult)
     }
 
-    return results
+    return { balances: results, batches: batchStats }
   }
 
   /**
-   * Проверить нативный баланс с таймаутом
+   * Проверить нативный баланс с таймаутом (на указанном блоке или 'latest')
    */
   async checkNativeBalance (
     chainId: number,
     walletAddress: Address,
+    blockNumber?: bigint,
     timeout: number = 8000
   ): Promise<NativeBalanceResult> {
     const networkConfig = this.rpcManager.getNetworkConfig(chainId)
@@ -307,33 +585,159 @@ export class Multicall3Service {
       throw new Error(`Сеть с chainId ${chainId} не поддерживается`)
     }
 
-    const client = await this.rpcManager.getClient(chainId)
-
     try {
-      // Создаем промис с таймаутом для получения баланса
-      const balancePromise = client.getBalance({
-        address: walletAddress
-      })
+      const balance = await this.rpcManager.execute(chainId, async (client) => {
+        // Создаем промис с таймаутом для получения баланса
+        const balancePromise = client.getBalance({
+          address: walletAddress,
+          ...(blockNumber !== undefined && { blockNumber })
+        })
+
+        const timeoutPromise = new Promise<never>((_, reject) => {
+          globalThis.setTimeout(() => reject(new Error(`Запрос нативного баланса превысил таймаут ${timeout}ms`)), timeout)
+        })
 
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        globalThis.setTimeout(() => reject(new Error(`Запрос нативного баланса превысил таймаут ${timeout}ms`)), timeout)
+        return await Promise.race([balancePromise, timeoutPromise])
       })
 
-      const balance = await Promise.race([balancePromise, timeoutPromise])
+      // Оцениваем баланс по цене нативного токена из источников цен
+      const price = balance > 0n ? await this.getNativeTokenPrice(chainId, networkConfig) : null
+      return this.toNativeBalanceResult(balance, networkConfig, price)
+    } catch (error) {
+      throw new Error(`Ошибка при получении нативного баланса: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`, { cause: error })
+    }
+  }
+
+  /**
+   * Проверить балансы нескольких кошельков в сети по плану пакетов
+   *
+   * Нативные балансы (getEthBalance) и balanceOf всех кошельков укладываются
+   * в общие пакеты Multicall3 в пределах лимита вызовов и газа, результаты
+   * раскладываются обратно по кошелькам. Цены запрашиваются один раз на сеть.
+   * Упавший пакет не прерывает проверку: у его кошельков нет части токенов
+   * (учитывается в итогах пакетов кошелька), а без нативного баланса кошелек
+   * считается непроверенным (nativeBalance null, причина в nativeError).
+   */
+  async checkWalletsBalances (
+    chainId: number,
+    walletAddresses: Address[],
+    tokens: TokenInfo[],
+    blockNumber?: bigint,
+    budget: ScanBudget = DEFAULT_SCAN_BUDGET
+  ): Promise<WalletBalances[]> {
+    const networkConfig = this.rpcManager.getNetworkConfig(chainId)
+    if (!networkConfig) {
+      throw new Error(`Сеть с chainId ${chainId} не поддерживается`)
+    }
+
+    const multicallAddress = networkConfig.multicallAddress as Address
+    const batches = planWalletScan(walletAddresses.length, tokens.length, budget)
 
-      const balanceFormatted = this.formatNativeBalance(balance, networkConfig.nativeCurrency.decimals)
+    const nativeBalances: Array<bigint | null> = walletAddresses.map(() => null)
+    const nativeErrors: Array<RPCErrorInfo | null> = walletAddresses.map(() => null)
+    const tokenBalances: Array<Array<{ token: TokenInfo; balance: bigint }>> = walletAddresses.map(() => [])
+    const batchStats: BatchStats[] = walletAddresses.map(() => ({ succeeded: 0, failed: 0, error: null }))
 
-      // Получаем актуальную цену нативного токена из LiFi API
-      const usdValue = await this.calculateNativeUSDValue(balance, networkConfig.nativeCurrency.decimals, chainId)
+    // Ограничиваем количество параллельных пакетов, как при проверке одного кошелька
+    const MAX_CONCURRENT_BATCHES = 6
+    for (let i = 0; i < batches.length; i += MAX_CONCURRENT_BATCHES) {
+      await Promise.all(batches.slice(i, i + MAX_CONCURRENT_BATCHES).map(async (batch) => {
+        const calls = batch.map(({ wallet, token }) => token === null
+          ? this.createNativeBalanceCall(multicallAddress, walletAddresses[wallet]!)
+          : this.createBalanceOfCall(tokens[token]!.address as Address, walletAddresses[wallet]!))
+
+        // Пакет учитывается в итогах кошельков, чьи токены в нем проверяются
+        const tokenWallets = new Set(batch.filter(call => call.token !== null).map(call => call.wallet))
 
+        let results: MulticallResult[]
+        try {
+          results = await this.executeCalls(chainId, calls, blockNumber)
+        } catch (error) {
+          const errorInfo = describeRPCError(error)
+          for (const wallet of tokenWallets) {
+            batchStats[wallet]!.failed++
+            batchStats[wallet]!.error ??= errorInfo
+          }
+          for (const { wallet, token } of batch) {
+            if (token === null) {
+              nativeErrors[wallet] = errorInfo
+            }
+          }
+          return
+        }
+
+        for (const wallet of tokenWallets) {
+          batchStats[wallet]!.succeeded++
+        }
+        batch.forEach(({ wallet, token }, index) => {
+          const balance = this.decodeBalance(results[index])
+          if (token === null) {
+            nativeBalances[wallet] = balance
+          } else if (balance !== null && balance > 0n) {
+            tokenBalances[wallet]!.push({ token: tokens[token]!, balance })
+          }
+        })
+      }))
+    }
+
+    // Цены запрашиваем один раз для всех токенов с ненулевым балансом
+    const prices = await this.getTokenPrices(chainId, [...new Set(tokenBalances.flat().map(({ token }) => token.address.toLowerCase()))])
+    const nativePrice = nativeBalances.some(balance => balance !== null && balance > 0n)
+      ? await this.getNativeTokenPrice(chainId, networkConfig)
+      : null
+
+    return walletAddresses.map((_, wallet) => {
+      const nativeBalance = nativeBalances[wallet]
+      const received = nativeBalance !== null && nativeBalance !== undefined
       return {
-        balance,
-        balanceFormatted,
-        symbol: networkConfig.nativeCurrency.symbol,
-        usdValue
+        nativeBalance: received
+          ? this.toNativeBalanceResult(nativeBalance, networkConfig, nativeBalance > 0n ? nativePrice : null)
+          : null,
+        nativeError: received
+          ? null
+          : nativeErrors[wallet] ?? { errorClass: 'unknown', message: 'getEthBalance не вернул нативный баланс' },
+        tokenBalances: tokenBalances[wallet]!.map(({ token, balance }) =>
+          this.toTokenBalanceResult(token, balance, prices.get(token.address.toLowerCase()))),
+        batches: batchStats[wallet]!
       }
-    } catch (error) {
-      throw new Error(`Ошибка при получении нативного баланса: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    })
+  }
+
+  /**
+   * Собрать результат нативного баланса
+   */
+  private toNativeBalanceResult (
+    balance: bigint,
+    networkConfig: NetworkConfig,
+    price: { quote: PriceQuote; pricedAgainst: PricedAgainst } | null
+  ): NativeBalanceResult {
+    return {
+      balance,
+      balanceFormatted: this.formatNativeBalance(balance, networkConfig.nativeCurrency.decimals),
+      symbol: networkConfig.nativeCurrency.symbol,
+      usdValue: price ? this.calculateUSDValue(balance, networkConfig.nativeCurrency.decimals, price.quote.priceUSD) : 0,
+      priceSource: price?.quote.source ?? NO_PRICE_SOURCE,
+      priceTimestamp: price?.quote.timestamp ?? null,
+      pricedAgainst: price?.pricedAgainst ?? null
+    }
+  }
+
+  /**
+   * Собрать результат баланса токена
+   */
+  private toTokenBalanceResult (token: TokenInfo, balance: bigint, quote: PriceQuote | undefined): BalanceResult {
+    return {
+      address: token.address,
+      symbol: token.symbol,
+      name: token.name,
+      balance,
+      balanceFormatted: this.formatTokenBalance(balance, token.decimals),
+      decimals: token.decimals,
+      usdValue: quote ? this.calculateUSDValue(balance, token.decimals, quote.priceUSD) : 0,
+      priceUSD: quote ? quote.priceUSD.toString() : '0',
+      priceSource: quote?.source ?? NO_PRICE_SOURCE,
+      priceTimestamp: quote?.timestamp ?? null,
+      pricedAgainst: quote ? { address: token.address, symbol: token.symbol, match: 'token' } : null
     }
   }
 
@@ -369,8 +773,7 @@ export class Multicall3Service {
   /**
    * Вычислить USD стоимость токена
    */
-  private calculateUSDValue (balance: bigint, decimals: number, priceUSD: string): number {
-    const price = parseFloat(priceUSD)
+  private calculateUSDValue (balance: bigint, decimals: number, price: number): number {
     if (isNaN(price) || price <= 0) {
       return 0
     }
@@ -379,46 +782,78 @@ export class Multicall3Service {
     return balanceFormatted * price
   }
 
+  /**
+   * Получить цену нативного токена сети (null - сеть неизвестна или цены нет)
+   */
+  async getNativePrice (chainId: number): Promise<{ quote: PriceQuote; pricedAgainst: PricedAgainst } | null> {
+    const networkConfig = this.rpcManager.getNetworkConfig(chainId)
+    return networkConfig ? await this.getNativeTokenPrice(chainId, networkConfig) : null
+  }
+
   /**
    * Получить цену нативного токена для сети
+   *
+   * Кандидаты по порядку: запись нативного токена в списке (0x0000... или
+   * 0xEeee...), wrapped-версия (wrappedNativeAddress), токены списка с
+   * nativeCoinKey. Берется первый кандидат, для которого есть цена.
    */
-  private async getNativeTokenPrice (chainId: number): Promise<number> {
+  private async getNativeTokenPrice (
+    chainId: number,
+    networkConfig: NetworkConfig
+  ): Promise<{ quote: PriceQuote; pricedAgainst: PricedAgainst } | null> {
     try {
-      // Получаем список токенов для сети
       const tokens = await this.tokenListManager.getTokensForChain(chainId)
+      const candidates: PricedAgainst[] = tokens
+        .filter(token => NATIVE_TOKEN_ADDRESSES.has(token.address.toLowerCase()))
+        .map(token => ({ address: token.address, symbol: token.symbol, match: 'native' }))
+
+      const wrappedAddress = networkConfig.wrappedNativeAddress
+      if (wrappedAddress) {
+        const wrappedToken = tokens.find(token => token.address.toLowerCase() === wrappedAddress.toLowerCase())
+        candidates.push({ address: wrappedAddress, symbol: wrappedToken?.symbol || `W${networkConfig.nativeCurrency.symbol}`, match: 'wrapped' })
+      }
 
-      if (tokens.length === 0) {
-        return 0
+      const coinKey = networkConfig.nativeCoinKey?.toLowerCase()
+      if (coinKey) {
+        for (const token of tokens) {
+          if (token.coinKey?.toLowerCase() === coinKey && !candidates.some(candidate => candidate.address.toLowerCase() === token.address.toLowerCase())) {
+            candidates.push({ address: token.address, symbol: token.symbol, match: 'coinKey' })
+          }
+        }
       }
 
-      // Первый токен в списке - это всегда нативный токен
-      const nativeToken = tokens[0]
+      if (candidates.length === 0) {
+        return null
+      }
 
-      if (!nativeToken) {
-        return 0
+      const prices = await this.priceProvider.getPrices(chainId, candidates.map(candidate => candidate.address))
+      for (const candidate of candidates) {
+        const quote = prices.get(candidate.address.toLowerCase())
+        if (quote && quote.priceUSD > 0) {
+          return { quote, pricedAgainst: candidate }
+        }
       }
 
-      return parseFloat(nativeToken.priceUSD)
+      return null
     } catch {
-      return 0
+      return null
     }
   }
 
   /**
-   * Вычислить USD стоимость нативного токена
+   * Получить цены токенов с ненулевым балансом
    */
-  private async calculateNativeUSDValue (balance: bigint, decimals: number, chainId: number): Promise<number> {
-    // Получаем цену нативного токена из LiFi API
-    const nativePrice = await this.getNativeTokenPrice(chainId)
-
-    if (nativePrice <= 0) {
-      return 0
+  private async getTokenPrices (chainId: number, addresses: string[]): Promise<Map<string, PriceQuote>> {
+    if (addresses.length === 0) {
+      return new Map()
     }
 
-    const balanceFormatted = parseFloat(this.formatNativeBalance(balance, decimals))
-    const usdValue = balanceFormatted * nativePrice
-
-    return usdValue
+    try {
+      return await this.priceProvider.getPrices(chainId, addresses)
+    } catch (error) {
+      console.warn(`⚠️ Не удалось получить цены токенов в сети ${chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      return new Map()
+    }
   }
 
   /**
@@ -433,8 +868,8 @@ export class Multicall3Service {
 
     for (const batch of tokenBatches) {
       try {
-        const batchResults = await this.checkTokenBalances(chainId, walletAddress, batch)
-        allResults.push(...batchResults)
+        const { balances } = await this.checkTokenBalances(chainId, walletAddress, batch)
+        allResults.push(...balances)
       } catch (error) {
         console.error('Ошибка при проверке batch токенов:', error instanceof Error ? error.message : 'Неизвестная ошибка')
       }
@@ -455,108 +890,35 @@ export class Multicall3Service {
   }
 
   /**
-   * Проверить один батч с ротацией RPC
-   */
-  private async checkSingleBatchWithRPCRotation (
-    chainId: number,
-    walletAddress: Address,
-    tokens: TokenInfo[],
-    rpcUrls: string[],
-    maxAttempts: number = 3
-  ): Promise<BalanceResult[]> {
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      const rpcIndex = (attempt - 1) % rpcUrls.length
-      const currentRpc = rpcUrls[rpcIndex]
-
-      if (!currentRpc) {
-        continue
-      }
-
-      try {
-        return await this.executeMulticallWithRPC(chainId, walletAddress, tokens, currentRpc)
-      } catch {
-        if (attempt < maxAttempts) {
-          await this.delay(500) // Уменьшаем задержку между попытками
-        }
-      }
-    }
-
-    throw new Error(`Батч упал после ${maxAttempts} попыток со всеми RPC`)
-  }
-
-  /**
-   * Задержка выполнения
+   * Выполнить Multicall3 запрос балансов для батча токенов
    */
-  private async delay (ms: number): Promise<void> {
-    return new Promise(resolve => globalThis.setTimeout(resolve, ms))
-  }
-
-  /**
-   * Выполнить Multicall3 с конкретным RPC
-   */
-  private async executeMulticallWithRPC (
+  private async executeBalanceMulticall (
     chainId: number,
     walletAddress: Address,
     tokens: TokenInfo[],
-    rpcUrl: string
+    blockNumber?: bigint
   ): Promise<BalanceResult[]> {
     // Создаем вызовы для всех токенов
     const calls: Call3[] = tokens.map(token =>
       this.createBalanceOfCall(token.address as Address, walletAddress)
     )
 
-    // Выполняем Multicall3 с конкретным RPC
-    const results = await this.executeMulticall(chainId, calls, rpcUrl)
-
-    // Обрабатываем результаты
-    const balanceResults: BalanceResult[] = []
+    // Выполняем вызовы через Multicall3 (или запасной режим без него)
+    const results = await this.executeCalls(chainId, calls, blockNumber)
 
-    for (let i = 0; i < tokens.length; i++) {
-      const token = tokens[i]
-      const result = results[i]
+    // Обрабатываем результаты (revert и пустой ответ - токен не найден или баланс равен 0)
+    const balances: Array<{ token: TokenInfo; balance: bigint }> = []
 
-      if (!token || !result) {
-        continue
-      }
-
-      if (!result.success) {
-        continue
+    tokens.forEach((token, index) => {
+      const balance = this.decodeBalance(results[index])
+      if (balance !== null && balance > 0n) {
+        balances.push({ token, balance })
       }
+    })
 
-      try {
-        const balance = decodeFunctionResult({
-          abi: ERC20_ABI,
-          functionName: 'balanceOf',
-          data: result.returnData
-        }) as bigint
-
-        // Форматируем баланс
-        const balanceFormatted = this.formatTokenBalance(balance, token.decimals)
-
-        // Вычисляем USD стоимость
-        const usdValue = this.calculateUSDValue(balance, token.decimals, token.priceUSD)
-
-        balanceResults.push({
-          address: token.address,
-          symbol: token.symbol,
-          name: token.name,
-          balance,
-          balanceFormatted,
-          decimals: token.decimals,
-          usdValue,
-          priceUSD: token.priceUSD
-        })
-      } catch (error) {
-        // Тихо пропускаем ошибки "Cannot decode zero data" - это нормально
-        if (error instanceof Error && error.message.includes('Cannot decode zero data')) {
-          // Токен не найден или баланс равен 0 - это нормальное поведение
-          continue
-        }
-        // Тихо пропускаем ошибки декодирования
-      }
-    }
+    // Цены запрашиваем только для токенов с ненулевым балансом
+    const prices = await this.getTokenPrices(chainId, balances.map(({ token }) => token.address))
 
-    // Фильтруем токены с нулевым балансом
-    return balanceResults.filter(result => result.balance > 0n)
+    return balances.map(({ token, balance }) => this.toTokenBalanceResult(token, balance, prices.get(token.address.toLowerCase())))
   }
 }
@@ -0,0 +1,261 @@
+import * as fs from 'fs'
+import { defineChain, isAddress } from 'viem'
+import type { NetworkConfig } from './rpc-manager.js'
+
+/**
+ * Файл пользовательского реестра сетей
+ */
+export const NETWORK_REGISTRY_FILE = 'networks.json'
+
+/**
+ * Запись пользовательского реестра сетей
+ *
+ * Для существующей сети переопределяет указанные поля, для новой сети
+ * обязательны name, rpcUrls и nativeCurrency.
+ */
+export interface NetworkRegistryEntry {
+  chainId: number
+  name?: string
+  rpcUrls?: string[]
+  extraRpcUrls?: string[] // Приватные/платные RPC, добавляются перед встроенными
+  multicallAddress?: string
+  nativeCurrency?: {
+    name: string
+    symbol: string
+    decimals: number
+  }
+  wrappedNativeAddress?: string
+  nativeCoinKey?: string
+  uniswapV3PositionManager?: string
+  aaveV3Pool?: string
+  discoveryLookbackBlocks?: number
+  disabled?: boolean
+}
+
+/**
+ * Формат файла реестра сетей
+ */
+export interface NetworkRegistryFile {
+  networks: NetworkRegistryEntry[]
+}
+
+/**
+ * Проверить URL RPC endpoint
+ */
+function validateRpcUrl (url: unknown, context: string, errors: string[]): void {
+  if (typeof url !== 'string') {
+    errors.push(`${context}: URL должен быть строкой`)
+    return
+  }
+
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      errors.push(`${context}: неподдерживаемый протокол в URL "${url}" (ожидается http или https)`)
+    }
+  } catch {
+    errors.push(`${context}: некорректный URL "${url}"`)
+  }
+}
+
+/**
+ * Проверить данные нативной валюты
+ */
+function validateNativeCurrency (value: unknown, context: string, errors: string[]): void {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${context}: отсутствует nativeCurrency`)
+    return
+  }
+
+  const currency = value as Record<string, unknown>
+  if (typeof currency['name'] !== 'string' || !currency['name']) {
+    errors.push(`${context}: отсутствует nativeCurrency.name`)
+  }
+  if (typeof currency['symbol'] !== 'string' || !currency['symbol']) {
+    errors.push(`${context}: отсутствует nativeCurrency.symbol`)
+  }
+  const decimals = currency['decimals']
+  if (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+    errors.push(`${context}: nativeCurrency.decimals должен быть целым числом от 0 до 36`)
+  }
+}
+
+/**
+ * Проверить итоговый список сетей на дубликаты chainId
+ */
+function validateUniqueChainIds (configs: Array<{ chainId: number }>, source: string, errors: string[]): void {
+  const seen = new Set<number>()
+  for (const config of configs) {
+    if (seen.has(config.chainId)) {
+      errors.push(`${source}: дублирующийся chainId ${config.chainId}`)
+    }
+    seen.add(config.chainId)
+  }
+}
+
+/**
+ * Проверить запись реестра
+ */
+function validateEntry (entry: NetworkRegistryEntry, isNew: boolean, errors: string[]): void {
+  const context = `${NETWORK_REGISTRY_FILE}: сеть ${entry.chainId}`
+
+  if (entry.disabled) {
+    return
+  }
+
+  if (entry.name !== undefined && (typeof entry.name !== 'string' || !entry.name)) {
+    errors.push(`${context}: name должен быть непустой строкой`)
+  }
+
+  for (const field of ['rpcUrls', 'extraRpcUrls'] as const) {
+    const urls = entry[field]
+    if (urls === undefined) continue
+    if (!Array.isArray(urls)) {
+      errors.push(`${context}: ${field} должен быть массивом`)
+      continue
+    }
+    urls.forEach(url => validateRpcUrl(url, context, errors))
+  }
+
+  if (entry.multicallAddress !== undefined && entry.multicallAddress !== '' && !isAddress(entry.multicallAddress)) {
+    errors.push(`${context}: некорректный multicallAddress "${entry.multicallAddress}"`)
+  }
+
+  if (entry.wrappedNativeAddress !== undefined && !isAddress(entry.wrappedNativeAddress)) {
+    errors.push(`${context}: некорректный wrappedNativeAddress "${entry.wrappedNativeAddress}"`)
+  }
+
+  if (entry.uniswapV3PositionManager !== undefined && !isAddress(entry.uniswapV3PositionManager)) {
+    errors.push(`${context}: некорректный uniswapV3PositionManager "${entry.uniswapV3PositionManager}"`)
+  }
+
+  if (entry.aaveV3Pool !== undefined && !isAddress(entry.aaveV3Pool)) {
+    errors.push(`${context}: некорректный aaveV3Pool "${entry.aaveV3Pool}"`)
+  }
+
+  if (entry.discoveryLookbackBlocks !== undefined && (!Number.isSafeInteger(entry.discoveryLookbackBlocks) || entry.discoveryLookbackBlocks <= 0)) {
+    errors.push(`${context}: discoveryLookbackBlocks должен быть положительным целым числом`)
+  }
+
+  if (entry.nativeCoinKey !== undefined && (typeof entry.nativeCoinKey !== 'string' || !entry.nativeCoinKey)) {
+    errors.push(`${context}: nativeCoinKey должен быть непустой строкой`)
+  }
+
+  if (entry.nativeCurrency !== undefined || isNew) {
+    validateNativeCurrency(entry.nativeCurrency, context, errors)
+  }
+
+  if (isNew) {
+    if (!entry.name) {
+      errors.push(`${context}: для новой сети обязательно поле name`)
+    }
+    const urlCount = (entry.rpcUrls?.length || 0) + (entry.extraRpcUrls?.length || 0)
+    if (urlCount === 0) {
+      errors.push(`${context}: для новой сети нужен хотя бы один RPC URL`)
+    }
+  }
+}
+
+/**
+ * Прочитать файл реестра сетей
+ */
+export function readNetworkRegistryFile (filePath: string = NETWORK_REGISTRY_FILE): NetworkRegistryFile | null {
+  if (!fs.existsSync(filePath)) {
+    return null
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as NetworkRegistryFile).networks)) {
+    throw new Error(`Некорректный формат ${filePath}: ожидается объект с массивом "networks"`)
+  }
+
+  return parsed as NetworkRegistryFile
+}
+
+/**
+ * Объединить встроенные сети с пользовательским реестром
+ *
+ * Все ошибки валидации собираются и выбрасываются одним исключением,
+ * чтобы пользователь увидел полный список проблем при запуске.
+ */
+export function mergeNetworkRegistry (
+  builtins: NetworkConfig[],
+  registry: NetworkRegistryFile | null
+): NetworkConfig[] {
+  const errors: string[] = []
+
+  validateUniqueChainIds(builtins, 'Встроенные сети', errors)
+
+  const entries = registry?.networks || []
+  entries.forEach((entry, index) => {
+    if (typeof entry.chainId !== 'number' || !Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+      errors.push(`${NETWORK_REGISTRY_FILE}: запись #${index + 1} содержит некорректный chainId`)
+    }
+  })
+  validateUniqueChainIds(entries, NETWORK_REGISTRY_FILE, errors)
+
+  const merged = new Map<number, NetworkConfig>(builtins.map(config => [config.chainId, config]))
+
+  for (const entry of entries) {
+    const existing = merged.get(entry.chainId)
+    validateEntry(entry, !existing, errors)
+
+    if (entry.disabled) {
+      merged.delete(entry.chainId)
+      continue
+    }
+
+    const rpcUrls = [
+      ...(entry.extraRpcUrls || []),
+      ...(entry.rpcUrls || existing?.rpcUrls || [])
+    ]
+    const name = entry.name || existing?.name || `Chain ${entry.chainId}`
+    const nativeCurrency = entry.nativeCurrency || existing?.nativeCurrency || { name: 'ETH', symbol: 'ETH', decimals: 18 }
+
+    merged.set(entry.chainId, {
+      ...existing,
+      chainId: entry.chainId,
+      name,
+      chain: existing?.chain || defineChain({
+        id: entry.chainId,
+        name,
+        nativeCurrency,
+        rpcUrls: { default: { http: rpcUrls } }
+      }),
+      rpcUrls: [...new Set(rpcUrls)],
+      multicallAddress: entry.multicallAddress ?? existing?.multicallAddress ?? '',
+      nativeCurrency,
+      ...(entry.wrappedNativeAddress && { wrappedNativeAddress: entry.wrappedNativeAddress }),
+      ...(entry.nativeCoinKey && { nativeCoinKey: entry.nativeCoinKey }),
+      ...(entry.uniswapV3PositionManager && { uniswapV3PositionManager: entry.uniswapV3PositionManager }),
+      ...(entry.aaveV3Pool && { aaveV3Pool: entry.aaveV3Pool }),
+      ...(entry.discoveryLookbackBlocks && { discoveryLookbackBlocks: entry.discoveryLookbackBlocks })
+    })
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Ошибки в конфигурации сетей:\n  - ${errors.join('\n  - ')}`)
+  }
+
+  return [...merged.values()]
+}
+
+/**
+ * Загрузить реестр сетей: встроенные сети + networks.json
+ */
+export function loadNetworkRegistry (builtins: NetworkConfig[], filePath: string = NETWORK_REGISTRY_FILE): NetworkConfig[] {
+  const registry = readNetworkRegistryFile(filePath)
+  const configs = mergeNetworkRegistry(builtins, registry)
+
+  if (registry) {
+    console.log(`🌐 Загружен реестр сетей ${filePath}: ${registry.networks.length} записей`)
+  }
+
+  return configs
+}
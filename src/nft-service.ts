@@ -0,0 +1,280 @@
+import * as fs from 'fs'
+import { encodeFunctionData, decodeFunctionResult, isAddress, Address } from 'viem'
+import { Multicall3Service, Call3, MulticallResult } from './multicall3-service.js'
+
+/**
+ * Файл списка NFT коллекций
+ */
+export const NFT_COLLECTIONS_FILE = 'nft-collections.json'
+
+/**
+ * ABI для ERC-721 (balanceOf и перечисление ERC721Enumerable)
+ */
+export const ERC721_ABI = [
+  {
+    'inputs': [
+      { 'internalType': 'address', 'name': 'owner', 'type': 'address' }
+    ],
+    'name': 'balanceOf',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': '', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [
+      { 'internalType': 'address', 'name': 'owner', 'type': 'address' },
+      { 'internalType': 'uint256', 'name': 'index', 'type': 'uint256' }
+    ],
+    'name': 'tokenOfOwnerByIndex',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': '', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * ABI для ERC-1155
+ */
+export const ERC1155_ABI = [
+  {
+    'inputs': [
+      { 'internalType': 'address[]', 'name': 'accounts', 'type': 'address[]' },
+      { 'internalType': 'uint256[]', 'name': 'ids', 'type': 'uint256[]' }
+    ],
+    'name': 'balanceOfBatch',
+    'outputs': [
+      { 'internalType': 'uint256[]', 'name': '', 'type': 'uint256[]' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * NFT коллекция из nft-collections.json
+ *
+ * enumerate (ERC-721) - перечислять tokenId через tokenOfOwnerByIndex,
+ * tokenIds (ERC-1155) - ID, баланс которых проверяется.
+ */
+export type NftCollection =
+  | { chainId: number; address: string; name?: string; standard: 'erc721'; enumerate?: boolean }
+  | { chainId: number; address: string; name?: string; standard: 'erc1155'; tokenIds: string[] }
+
+/**
+ * Формат файла nft-collections.json
+ */
+export interface NftCollectionsFile {
+  collections: NftCollection[]
+}
+
+/**
+ * NFT коллекции на балансе кошелька
+ */
+export interface NftHolding {
+  collectionAddress: string
+  name: string
+  standard: 'erc721' | 'erc1155'
+  balance: bigint // Всего NFT коллекции на кошельке
+  tokens: Array<{ tokenId: string; amount: bigint }> // Известные tokenId (перечисленные или из списка ERC-1155)
+  enumerated: boolean // Для ERC-721: удалось ли перечислить tokenId
+}
+
+/**
+ * Загрузить список NFT коллекций
+ *
+ * Без файла NFT не проверяются. Ошибки всех записей собираются в одно исключение.
+ */
+export function loadNftCollections (filePath: string = NFT_COLLECTIONS_FILE): NftCollection[] {
+  if (!fs.existsSync(filePath)) {
+    return []
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  }
+
+  const collections = (parsed as NftCollectionsFile)?.collections
+  if (!Array.isArray(collections)) {
+    throw new Error(`Некорректный формат ${filePath}: ожидается объект с массивом "collections"`)
+  }
+
+  const errors: string[] = []
+  collections.forEach((collection, index) => {
+    const context = `коллекция #${index + 1}`
+    if (typeof collection?.chainId !== 'number' || !Number.isInteger(collection.chainId) || collection.chainId <= 0) {
+      errors.push(`${context}: некорректный chainId`)
+    }
+    if (typeof collection?.address !== 'string' || !isAddress(collection.address, { strict: false })) {
+      errors.push(`${context}: некорректный адрес "${collection?.address}"`)
+    }
+    if (collection?.standard === 'erc1155') {
+      if (!Array.isArray(collection.tokenIds) || collection.tokenIds.length === 0 || collection.tokenIds.some(id => !/^\d+$/.test(String(id)))) {
+        errors.push(`${context}: для erc1155 нужен непустой массив tokenIds (десятичные числа)`)
+      }
+    } else if (collection?.standard !== 'erc721') {
+      errors.push(`${context}: неизвестный standard "${(collection as { standard?: unknown })?.standard}" (ожидается erc721 или erc1155)`)
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Ошибки в ${filePath}:\n  - ${errors.join('\n  - ')}`)
+  }
+
+  console.log(`🖼️ Загружены NFT коллекции из ${filePath}: ${collections.length}`)
+  return collections
+}
+
+/**
+ * Проверка NFT (ERC-721 и ERC-1155) на кошельках
+ *
+ * Все запросы идут через Multicall3Service.executeCalls: сначала балансы всех
+ * коллекций сети, затем перечисление tokenId для ERC-721 коллекций с
+ * enumerate. Если контракт не поддерживает ERC721Enumerable, перечисление
+ * пропускается и остается только количество.
+ */
+export class NftService {
+  private readonly multicallService: Multicall3Service
+  private readonly collections: NftCollection[]
+  private readonly MAX_ENUMERATED_TOKENS = 100 // На одну коллекцию
+
+  constructor (multicallService: Multicall3Service, collections: NftCollection[] = loadNftCollections()) {
+    this.multicallService = multicallService
+    this.collections = collections
+  }
+
+  /**
+   * Есть ли коллекции для сети
+   */
+  hasCollections (chainId: number): boolean {
+    return this.collections.some(collection => collection.chainId === chainId)
+  }
+
+  /**
+   * Создать вызов проверки баланса коллекции
+   */
+  private createBalanceCall (collection: NftCollection, walletAddress: Address): Call3 {
+    const callData = collection.standard === 'erc1155'
+      ? encodeFunctionData({
+        abi: ERC1155_ABI,
+        functionName: 'balanceOfBatch',
+        args: [collection.tokenIds.map(() => walletAddress), collection.tokenIds.map(id => BigInt(id))]
+      })
+      : encodeFunctionData({ abi: ERC721_ABI, functionName: 'balanceOf', args: [walletAddress] })
+
+    return { target: collection.address as Address, allowFailure: true, callData }
+  }
+
+  /**
+   * Разобрать результат проверки баланса коллекции (null - вызов не удался)
+   */
+  private decodeBalance (collection: NftCollection, result: MulticallResult | undefined): Omit<NftHolding, 'collectionAddress' | 'name' | 'standard'> | null {
+    if (!result?.success || result.returnData === '0x') {
+      return null
+    }
+
+    try {
+      if (collection.standard === 'erc1155') {
+        const amounts = decodeFunctionResult({ abi: ERC1155_ABI, functionName: 'balanceOfBatch', data: result.returnData })
+        const tokens = collection.tokenIds
+          .map((tokenId, index) => ({ tokenId, amount: amounts[index] ?? 0n }))
+          .filter(token => token.amount > 0n)
+        return { balance: tokens.reduce((sum, token) => sum + token.amount, 0n), tokens, enumerated: true }
+      }
+
+      const balance = decodeFunctionResult({ abi: ERC721_ABI, functionName: 'balanceOf', data: result.returnData })
+      return { balance, tokens: [], enumerated: false }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Перечислить tokenId ERC-721 коллекций через tokenOfOwnerByIndex
+   */
+  private async enumerateTokens (chainId: number, walletAddress: Address, holdings: NftHolding[], blockNumber?: bigint): Promise<void> {
+    const requests = holdings.flatMap(holding => {
+      const count = Number(holding.balance < BigInt(this.MAX_ENUMERATED_TOKENS) ? holding.balance : BigInt(this.MAX_ENUMERATED_TOKENS))
+      return Array.from({ length: count }, (_, index) => ({ holding, index }))
+    })
+
+    if (requests.length === 0) {
+      return
+    }
+
+    const results = await this.multicallService.executeCallsInBatches(chainId, requests.map(({ holding, index }) => ({
+      target: holding.collectionAddress as Address,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: ERC721_ABI, functionName: 'tokenOfOwnerByIndex', args: [walletAddress, BigInt(index)] })
+    })), blockNumber)
+
+    const enumerated = new Map<NftHolding, string[] | null>()
+    requests.forEach(({ holding }, i) => {
+      const tokenIds = enumerated.has(holding) ? enumerated.get(holding)! : []
+      const result = results[i]
+      if (tokenIds === null || !result?.success || result.returnData === '0x') {
+        // Коллекция без ERC721Enumerable - оставляем только количество
+        enumerated.set(holding, null)
+        return
+      }
+      try {
+        tokenIds.push(decodeFunctionResult({ abi: ERC721_ABI, functionName: 'tokenOfOwnerByIndex', data: result.returnData }).toString())
+        enumerated.set(holding, tokenIds)
+      } catch {
+        enumerated.set(holding, null)
+      }
+    })
+
+    for (const [holding, tokenIds] of enumerated) {
+      if (tokenIds) {
+        holding.tokens = tokenIds.map(tokenId => ({ tokenId, amount: 1n }))
+        holding.enumerated = true
+      }
+    }
+  }
+
+  /**
+   * Проверить NFT кошелька в сети (на указанном блоке или 'latest')
+   *
+   * Возвращает только коллекции с ненулевым балансом.
+   */
+  async checkNftHoldings (chainId: number, walletAddress: Address, blockNumber?: bigint): Promise<NftHolding[]> {
+    const collections = this.collections.filter(collection => collection.chainId === chainId)
+    if (collections.length === 0) {
+      return []
+    }
+
+    const results = await this.multicallService.executeCallsInBatches(chainId, collections.map(collection => this.createBalanceCall(collection, walletAddress)), blockNumber)
+
+    const holdings: NftHolding[] = []
+    const toEnumerate: NftHolding[] = []
+
+    collections.forEach((collection, index) => {
+      const decoded = this.decodeBalance(collection, results[index])
+      if (!decoded || decoded.balance === 0n) {
+        return
+      }
+
+      const holding: NftHolding = {
+        collectionAddress: collection.address,
+        name: collection.name || collection.address,
+        standard: collection.standard,
+        ...decoded
+      }
+      holdings.push(holding)
+
+      if (collection.standard === 'erc721' && collection.enumerate) {
+        toEnumerate.push(holding)
+      }
+    })
+
+    await this.enumerateTokens(chainId, walletAddress, toEnumerate, blockNumber)
+    return holdings
+  }
+}
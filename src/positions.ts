@@ -0,0 +1,228 @@
+import * as fs from 'fs'
+import { formatUnits, isAddress, Address } from 'viem'
+import { NO_PRICE_SOURCE, BalanceResult } from './multicall3-service.js'
+import { RPCErrorInfo, describeRPCError } from './rpc-errors.js'
+import type { PriceProvider } from './price-providers.js'
+import type { TokenMetadata } from './token-metadata-resolver.js'
+
+/**
+ * Файл настроек DeFi позиций
+ */
+export const POSITIONS_CONFIG_FILE = 'positions.json'
+
+/**
+ * Тип DeFi позиции
+ */
+export type PositionType = 'vault' | 'lending' | 'liquidity' | 'staking'
+
+/**
+ * Актив внутри позиции (базовый токен, долг, награда)
+ */
+export interface PositionAsset {
+  address: string
+  symbol: string
+  decimals: number
+  amount: bigint
+  amountFormatted: string
+  usdValue: number
+  priceSource: string
+  priceTimestamp: number | null
+}
+
+/**
+ * DeFi позиция кошелька
+ *
+ * receiptTokens - токены, которыми представлена позиция (доля хранилища,
+ * aToken, долговой токен). Они убираются из списка токенов сети, чтобы не
+ * считать стоимость дважды.
+ */
+export interface DefiPosition {
+  protocol: string
+  type: PositionType
+  name: string
+  contractAddress: string
+  receiptTokens?: string[]
+  assets: PositionAsset[] // Базовые активы позиции
+  debts: PositionAsset[] // Долги (вычитаются из стоимости)
+  fees: PositionAsset[] // Несобранные комиссии и награды (входят в стоимость)
+  usdValue: number // Стоимость активов и комиссий за вычетом долгов
+  healthFactor?: number | null // Для займов: health factor (null - долга нет)
+  atRisk?: boolean // Health factor ниже порога из positions.json
+  details?: Record<string, string> // Дополнительные сведения для отчета
+}
+
+/**
+ * Запрос позиций кошелька в сети
+ *
+ * tokenBalances - найденные балансы токенов сети (адаптеры могут искать
+ * среди них доли хранилищ и LP токены).
+ */
+export interface PositionQuery {
+  chainId: number
+  walletAddress: Address
+  blockNumber?: bigint
+  tokenBalances: BalanceResult[]
+}
+
+/**
+ * Адаптер протокола
+ *
+ * Все чтения из контрактов выполняются через Multicall3Service.executeCalls.
+ */
+export interface PositionAdapter {
+  readonly name: string
+  getPositions (query: PositionQuery): Promise<DefiPosition[]>
+}
+
+/**
+ * Контракт из positions.json
+ */
+export interface PositionContractConfig {
+  chainId: number
+  address: string
+  name?: string
+}
+
+/**
+ * Формат файла positions.json
+ */
+export interface PositionsConfig {
+  erc4626Vaults?: PositionContractConfig[] // Хранилища, токены которых могут отсутствовать в списках
+  healthFactorThreshold?: number // Займы с health factor ниже порога помечаются как рискованные
+}
+
+/**
+ * Порог health factor по умолчанию
+ */
+export const DEFAULT_HEALTH_FACTOR_THRESHOLD = 1.2
+
+/**
+ * Загрузить настройки позиций (без файла - пустые настройки)
+ */
+export function loadPositionsConfig (filePath: string = POSITIONS_CONFIG_FILE): PositionsConfig {
+  if (!fs.existsSync(filePath)) {
+    return {}
+  }
+
+  let parsed: PositionsConfig
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PositionsConfig
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  }
+
+  const errors: string[] = []
+  const vaults = parsed?.erc4626Vaults
+  if (vaults !== undefined && !Array.isArray(vaults)) {
+    errors.push('erc4626Vaults: ожидается массив')
+  }
+  (Array.isArray(vaults) ? vaults : []).forEach((entry: Partial<PositionContractConfig>, index) => {
+    if (typeof entry?.chainId !== 'number' || !Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+      errors.push(`erc4626Vaults #${index + 1}: некорректный chainId`)
+    }
+    if (typeof entry?.address !== 'string' || !isAddress(entry.address, { strict: false })) {
+      errors.push(`erc4626Vaults #${index + 1}: некорректный адрес "${entry?.address}"`)
+    }
+  })
+  if (parsed?.healthFactorThreshold !== undefined && (typeof parsed.healthFactorThreshold !== 'number' || parsed.healthFactorThreshold <= 0)) {
+    errors.push('healthFactorThreshold должен быть положительным числом')
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Ошибки в ${filePath}:\n  - ${errors.join('\n  - ')}`)
+  }
+
+  console.log(`🏦 Загружены настройки позиций из ${filePath}`)
+  return parsed
+}
+
+/**
+ * Оценить активы позиций в USD одним запросом к источнику цен
+ */
+export async function valuePositionAssets (
+  priceProvider: PriceProvider,
+  chainId: number,
+  assets: Array<{ address: string; metadata: TokenMetadata; amount: bigint }>
+): Promise<PositionAsset[]> {
+  const prices = assets.length > 0
+    ? await priceProvider.getPrices(chainId, assets.map(asset => asset.address))
+    : new Map()
+
+  return assets.map(({ address, metadata, amount }) => {
+    const quote = prices.get(address.toLowerCase())
+    const amountFormatted = formatUnits(amount, metadata.decimals)
+    return {
+      address,
+      symbol: metadata.symbol,
+      decimals: metadata.decimals,
+      amount,
+      amountFormatted,
+      usdValue: quote ? parseFloat(amountFormatted) * quote.priceUSD : 0,
+      priceSource: quote?.source ?? NO_PRICE_SOURCE,
+      priceTimestamp: quote?.timestamp ?? null
+    }
+  })
+}
+
+/**
+ * Собрать позицию и посчитать ее стоимость
+ */
+export function createPosition (
+  position: Omit<DefiPosition, 'usdValue' | 'debts' | 'fees'> & { debts?: PositionAsset[]; fees?: PositionAsset[] }
+): DefiPosition {
+  const debts = position.debts || []
+  const fees = position.fees || []
+  const sumUsd = (assets: PositionAsset[]): number => assets.reduce((sum, asset) => sum + asset.usdValue, 0)
+  return { ...position, debts, fees, usdValue: sumUsd(position.assets) + sumUsd(fees) - sumUsd(debts) }
+}
+
+/**
+ * Позиции кошелька в сети и адаптеры, завершившиеся ошибкой
+ */
+export interface PositionsResult {
+  positions: DefiPosition[]
+  failures: Array<RPCErrorInfo & { adapter: string }>
+}
+
+/**
+ * Запуск адаптеров протоколов для кошелька в сети
+ *
+ * Ошибка одного адаптера не мешает остальным, но возвращается вместе с
+ * позициями: без нее итоги сети выглядели бы полными. Если несколько
+ * адаптеров вернули позиции с общим receipt токеном, остается первая.
+ */
+export class PositionService {
+  private readonly adapters: PositionAdapter[]
+
+  constructor (adapters: PositionAdapter[]) {
+    this.adapters = adapters
+  }
+
+  /**
+   * Получить позиции кошелька в сети
+   */
+  async getPositions (query: PositionQuery): Promise<PositionsResult> {
+    const failures: PositionsResult['failures'] = []
+    const results = await Promise.all(this.adapters.map(async (adapter) => {
+      try {
+        return await adapter.getPositions(query)
+      } catch (error) {
+        console.warn(`⚠️ Адаптер ${adapter.name} в сети ${query.chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+        failures.push({ adapter: adapter.name, ...describeRPCError(error) })
+        return []
+      }
+    }))
+
+    const seenReceipts = new Set<string>()
+    const positions = results.flat().filter(position => {
+      const receipts = (position.receiptTokens || []).map(address => address.toLowerCase())
+      if (receipts.some(address => seenReceipts.has(address))) {
+        return false
+      }
+      receipts.forEach(address => seenReceipts.add(address))
+      return true
+    })
+
+    return { positions, failures }
+  }
+}
@@ -0,0 +1,353 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { isAddress } from 'viem'
+import type { TokenListManager } from './token-list-manager.js'
+
+/**
+ * Файл настройки источников цен
+ */
+export const PRICE_SOURCES_FILE = 'price-sources.json'
+
+/**
+ * Цена токена с указанием источника и времени
+ */
+export interface PriceQuote {
+  priceUSD: number
+  source: string // Например "lifi", "file:prices.csv", "fixed"
+  timestamp: number | null // Когда цена получена источником (ms), null - неизвестно
+}
+
+/**
+ * Поставщик цен токенов
+ *
+ * Возвращает цены только для найденных токенов (ключ - адрес в нижнем регистре).
+ */
+export interface PriceProvider {
+  readonly name: string
+  getPrices (chainId: number, addresses: string[]): Promise<Map<string, PriceQuote>>
+}
+
+/**
+ * Описание источника цен в price-sources.json
+ *
+ * Порядок источников задает приоритет: цена берется из первого источника,
+ * у которого она есть и не устарела.
+ */
+export type PriceSourceConfig =
+  | { type: 'lifi' }
+  | { type: 'file'; path: string }
+  | { type: 'fixed'; prices: Record<string, number>; defaultPrice?: number }
+
+/**
+ * Формат файла price-sources.json
+ */
+export interface PriceSourcesFile {
+  providers: PriceSourceConfig[]
+  maxPriceAgeMinutes?: number
+}
+
+/**
+ * Цены из списков токенов (Li.quest API и другие источники token-sources.json)
+ *
+ * Время цены - момент загрузки списка из источника, поэтому цена из
+ * кэша или снимка помечается своим реальным возрастом.
+ */
+export class LiFiPriceProvider implements PriceProvider {
+  readonly name = 'lifi'
+  private readonly tokenListManager: TokenListManager
+
+  constructor (tokenListManager: TokenListManager) {
+    this.tokenListManager = tokenListManager
+  }
+
+  async getPrices (chainId: number, addresses: string[]): Promise<Map<string, PriceQuote>> {
+    const { tokens, updatedAt } = await this.tokenListManager.getTokensWithStatus(chainId)
+    const wanted = new Set(addresses.map(address => address.toLowerCase()))
+    const prices = new Map<string, PriceQuote>()
+
+    for (const token of tokens) {
+      const address = token.address.toLowerCase()
+      const price = parseFloat(token.priceUSD)
+      if (wanted.has(address) && !prices.has(address) && price > 0) {
+        prices.set(address, { priceUSD: price, source: token.priceSource || token.source || this.name, timestamp: updatedAt })
+      }
+    }
+
+    return prices
+  }
+}
+
+/**
+ * Цены из локального файла (CSV или JSON)
+ *
+ * CSV: строка заголовка и колонки chainId,address,priceUSD[,timestamp].
+ * JSON: массив (или { "prices": [...] }) объектов { chainId, address, priceUSD, timestamp? }.
+ * timestamp - ISO дата или миллисекунды; без него используется время изменения файла.
+ */
+export class FilePriceProvider implements PriceProvider {
+  readonly name: string
+  private readonly filePath: string
+  private prices: Map<string, PriceQuote> | null = null
+  private loadedMtime = 0
+
+  constructor (filePath: string) {
+    this.filePath = filePath
+    this.name = `file:${path.basename(filePath)}`
+  }
+
+  /**
+   * Разобрать время цены из файла
+   */
+  private parseTimestamp (value: unknown, fallback: number): number {
+    if (value === undefined || value === null || value === '') {
+      return fallback
+    }
+    const timestamp = typeof value === 'number' || /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value))
+    return Number.isFinite(timestamp) ? timestamp : fallback
+  }
+
+  /**
+   * Прочитать записи файла цен
+   */
+  private readEntries (): Array<Record<string, unknown>> {
+    const content = fs.readFileSync(this.filePath, 'utf8')
+
+    if (this.filePath.toLowerCase().endsWith('.json')) {
+      const parsed = JSON.parse(content) as unknown
+      const entries = Array.isArray(parsed) ? parsed : (parsed as { prices?: unknown })?.prices
+      if (!Array.isArray(entries)) {
+        throw new Error('ожидается массив цен или объект с массивом "prices"')
+      }
+      return entries as Array<Record<string, unknown>>
+    }
+
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'))
+    const header = (lines.shift() || '').split(',').map(column => column.trim())
+    return lines.map(line => {
+      const values = line.split(',').map(value => value.trim())
+      return Object.fromEntries(header.map((column, index) => [column, values[index]]))
+    })
+  }
+
+  /**
+   * Загрузить файл (повторно - только если он изменился)
+   */
+  private load (): Map<string, PriceQuote> {
+    const mtime = Math.floor(fs.statSync(this.filePath).mtimeMs)
+    if (this.prices && mtime === this.loadedMtime) {
+      return this.prices
+    }
+
+    const prices = new Map<string, PriceQuote>()
+    let skipped = 0
+    for (const entry of this.readEntries()) {
+      const chainId = Number(entry['chainId'])
+      const address = String(entry['address'] ?? '')
+      const priceUSD = Number(entry['priceUSD'])
+      if (!Number.isInteger(chainId) || !isAddress(address, { strict: false }) || !Number.isFinite(priceUSD) || priceUSD < 0) {
+        skipped++
+        continue
+      }
+      prices.set(`${chainId}:${address.toLowerCase()}`, {
+        priceUSD,
+        source: this.name,
+        timestamp: this.parseTimestamp(entry['timestamp'], mtime)
+      })
+    }
+
+    if (skipped > 0) {
+      console.warn(`⚠️ ${this.filePath}: пропущено некорректных строк: ${skipped}`)
+    }
+
+    this.prices = prices
+    this.loadedMtime = mtime
+    return prices
+  }
+
+  async getPrices (chainId: number, addresses: string[]): Promise<Map<string, PriceQuote>> {
+    let prices: Map<string, PriceQuote>
+    try {
+      prices = this.load()
+    } catch (error) {
+      console.warn(`⚠️ Не удалось прочитать файл цен ${this.filePath}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      return new Map()
+    }
+
+    const result = new Map<string, PriceQuote>()
+    for (const address of addresses) {
+      const quote = prices.get(`${chainId}:${address.toLowerCase()}`)
+      if (quote) {
+        result.set(address.toLowerCase(), quote)
+      }
+    }
+    return result
+  }
+}
+
+/**
+ * Фиксированные цены (для тестов и ручной оценки)
+ *
+ * Ключи prices: "chainId:address" или "address" для всех сетей.
+ */
+export class FixedPriceProvider implements PriceProvider {
+  readonly name = 'fixed'
+  private readonly prices: Map<string, number>
+  private readonly defaultPrice: number | undefined
+
+  constructor (prices: Record<string, number> = {}, defaultPrice?: number) {
+    this.prices = new Map(Object.entries(prices).map(([key, price]) => [key.toLowerCase(), price]))
+    this.defaultPrice = defaultPrice
+  }
+
+  async getPrices (chainId: number, addresses: string[]): Promise<Map<string, PriceQuote>> {
+    const result = new Map<string, PriceQuote>()
+    const timestamp = Date.now()
+
+    for (const address of addresses) {
+      const normalized = address.toLowerCase()
+      const price = this.prices.get(`${chainId}:${normalized}`) ?? this.prices.get(normalized) ?? this.defaultPrice
+      if (price !== undefined) {
+        result.set(normalized, { priceUSD: price, source: this.name, timestamp })
+      }
+    }
+    return result
+  }
+}
+
+/**
+ * Цепочка поставщиков цен с запасными вариантами
+ *
+ * Для каждого токена берется первая не устаревшая цена (моложе maxAge).
+ * Если все найденные цены устарели, используется цена самого приоритетного
+ * источника - ее возраст виден по timestamp. Ошибка одного поставщика
+ * не мешает остальным.
+ */
+export class ChainedPriceProvider implements PriceProvider {
+  readonly name: string
+  private readonly providers: PriceProvider[]
+  private readonly maxAge: number | null
+
+  constructor (providers: PriceProvider[], maxAge: number | null = null) {
+    this.providers = providers
+    this.maxAge = maxAge
+    this.name = providers.map(provider => provider.name).join(' -> ')
+  }
+
+  /**
+   * Устарела ли цена
+   */
+  private isStale (quote: PriceQuote): boolean {
+    return this.maxAge !== null && (quote.timestamp === null || Date.now() - quote.timestamp > this.maxAge)
+  }
+
+  async getPrices (chainId: number, addresses: string[]): Promise<Map<string, PriceQuote>> {
+    const result = new Map<string, PriceQuote>()
+    const staleFallback = new Map<string, PriceQuote>()
+    let pending = [...new Set(addresses.map(address => address.toLowerCase()))]
+
+    for (const provider of this.providers) {
+      if (pending.length === 0) {
+        break
+      }
+
+      let prices: Map<string, PriceQuote>
+      try {
+        prices = await provider.getPrices(chainId, pending)
+      } catch (error) {
+        console.warn(`⚠️ Источник цен ${provider.name} недоступен:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+        continue
+      }
+
+      pending = pending.filter(address => {
+        const quote = prices.get(address)
+        if (!quote) {
+          return true
+        }
+        if (this.isStale(quote)) {
+          if (!staleFallback.has(address)) {
+            staleFallback.set(address, quote)
+          }
+          return true
+        }
+        result.set(address, quote)
+        return false
+      })
+    }
+
+    for (const address of pending) {
+      const quote = staleFallback.get(address)
+      if (quote) {
+        result.set(address, quote)
+      }
+    }
+
+    return result
+  }
+}
+
+/**
+ * Создать поставщика цен по описанию из price-sources.json
+ */
+function createPriceProvider (config: PriceSourceConfig, tokenListManager: TokenListManager): PriceProvider {
+  switch (config.type) {
+  case 'lifi':
+    return new LiFiPriceProvider(tokenListManager)
+  case 'file':
+    return new FilePriceProvider(config.path)
+  case 'fixed':
+    return new FixedPriceProvider(config.prices, config.defaultPrice)
+  }
+}
+
+/**
+ * Загрузить источники цен из price-sources.json
+ *
+ * Без файла цены берутся из списков токенов (Li.quest).
+ */
+export function loadPriceProvider (
+  tokenListManager: TokenListManager,
+  filePath: string = PRICE_SOURCES_FILE
+): PriceProvider {
+  if (!fs.existsSync(filePath)) {
+    return new LiFiPriceProvider(tokenListManager)
+  }
+
+  let parsed: PriceSourcesFile
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PriceSourcesFile
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  }
+
+  const providers = parsed?.providers
+  if (!Array.isArray(providers) || providers.length === 0) {
+    throw new Error(`Некорректный формат ${filePath}: ожидается объект с непустым массивом "providers"`)
+  }
+
+  const errors: string[] = []
+  providers.forEach((provider, index) => {
+    const context = `источник цен #${index + 1}`
+    if (provider?.type === 'file') {
+      if (typeof provider.path !== 'string' || !provider.path) {
+        errors.push(`${context}: для file обязательно поле path`)
+      }
+    } else if (provider?.type === 'fixed') {
+      if (typeof provider.prices !== 'object' || provider.prices === null || Object.values(provider.prices).some(price => typeof price !== 'number')) {
+        errors.push(`${context}: prices должен быть объектом { "адрес": цена }`)
+      }
+    } else if (provider?.type !== 'lifi') {
+      errors.push(`${context}: неизвестный тип "${(provider as { type?: unknown })?.type}" (ожидается lifi, file или fixed)`)
+    }
+  })
+  if (parsed.maxPriceAgeMinutes !== undefined && (typeof parsed.maxPriceAgeMinutes !== 'number' || parsed.maxPriceAgeMinutes <= 0)) {
+    errors.push('maxPriceAgeMinutes должен быть положительным числом')
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Ошибки в ${filePath}:\n  - ${errors.join('\n  - ')}`)
+  }
+
+  console.log(`💵 Загружены источники цен из ${filePath}: ${providers.length}`)
+  const maxAge = parsed.maxPriceAgeMinutes !== undefined ? parsed.maxPriceAgeMinutes * 60 * 1000 : null
+  return new ChainedPriceProvider(providers.map(provider => createPriceProvider(provider, tokenListManager)), maxAge)
+}
@@ -0,0 +1,251 @@
+import * as fs from 'fs'
+
+/**
+ * Файл с настройками лимитов запросов
+ */
+export const RATE_LIMITS_FILE = 'rate-limits.json'
+
+/**
+ * Настройки лимитов запросов
+ *
+ * defaultRps применяется ко всем хостам, hosts переопределяет лимит
+ * для конкретного хоста (например, "eth.drpc.org": 5).
+ */
+export interface RateLimitConfig {
+  defaultRps: number
+  burst?: number
+  hosts?: Record<string, number>
+}
+
+/**
+ * Статистика ограничения запросов по хосту
+ */
+export interface HostThrottleStats {
+  host: string
+  rps: number
+  requests: number
+  throttled: number
+  throttledMs: number
+  rateLimitResponses: number
+}
+
+/**
+ * Token bucket одного хоста
+ */
+interface HostBucket {
+  tokens: number
+  capacity: number
+  rps: number
+  lastRefill: number
+  blockedUntil: number
+  rateLimitStreak: number // Ответов 429 подряд (номер попытки для backoff)
+  stats: HostThrottleStats
+}
+
+/**
+ * Лимиты по умолчанию (для публичных RPC)
+ */
+const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  defaultRps: 10,
+  hosts: {
+    'eth.drpc.org': 5,
+    'rpc.ankr.com': 5,
+    'eth.llamarpc.com': 5,
+    'bsc.llamarpc.com': 5,
+    'polygon.llamarpc.com': 5
+  }
+}
+
+/**
+ * Задержка выполнения
+ */
+function delay (ms: number): Promise<void> {
+  return new Promise(resolve => globalThis.setTimeout(resolve, ms))
+}
+
+/**
+ * Разобрать заголовок Retry-After (секунды или HTTP дата) в миллисекунды
+ */
+export function parseRetryAfter (value: string | null | undefined): number | null {
+  if (!value) {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return null
+}
+
+/**
+ * Экспоненциальная задержка с полным jitter
+ */
+export function backoffWithJitter (attempt: number, baseMs: number = 500, maxMs: number = 15000): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1))
+  return Math.round(Math.random() * ceiling)
+}
+
+/**
+ * Ограничитель запросов по хостам (token bucket на каждый хост)
+ */
+export class HostRateLimiter {
+  private readonly buckets = new Map<string, HostBucket>()
+  private readonly config: RateLimitConfig
+
+  constructor (config: RateLimitConfig = DEFAULT_RATE_LIMITS) {
+    this.config = config
+  }
+
+  /**
+   * Загрузить настройки из rate-limits.json (если файл есть)
+   */
+  static fromFile (filePath: string = RATE_LIMITS_FILE): HostRateLimiter {
+    if (!fs.existsSync(filePath)) {
+      return new HostRateLimiter()
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<RateLimitConfig>
+      if (typeof parsed.defaultRps !== 'number' || parsed.defaultRps <= 0) {
+        throw new Error('defaultRps должен быть положительным числом')
+      }
+
+      console.log(`⏱️ Загружены лимиты запросов из ${filePath}`)
+      return new HostRateLimiter({
+        defaultRps: parsed.defaultRps,
+        ...(parsed.burst !== undefined && { burst: parsed.burst }),
+        hosts: { ...DEFAULT_RATE_LIMITS.hosts, ...parsed.hosts }
+      })
+    } catch (error) {
+      throw new Error(`Ошибка в ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    }
+  }
+
+  /**
+   * Получить хост из URL
+   */
+  static getHost (url: string): string {
+    try {
+      return new URL(url).host
+    } catch {
+      return url
+    }
+  }
+
+  /**
+   * Получить или создать bucket хоста
+   */
+  private getBucket (host: string): HostBucket {
+    let bucket = this.buckets.get(host)
+    if (!bucket) {
+      const rps = this.config.hosts?.[host] ?? this.config.defaultRps
+      const capacity = this.config.burst ?? Math.max(1, Math.ceil(rps))
+      bucket = {
+        tokens: capacity,
+        capacity,
+        rps,
+        lastRefill: Date.now(),
+        blockedUntil: 0,
+        rateLimitStreak: 0,
+        stats: { host, rps, requests: 0, throttled: 0, throttledMs: 0, rateLimitResponses: 0 }
+      }
+      this.buckets.set(host, bucket)
+    }
+    return bucket
+  }
+
+  /**
+   * Пополнить bucket по прошедшему времени
+   */
+  private refill (bucket: HostBucket): void {
+    const now = Date.now()
+    const elapsed = (now - bucket.lastRefill) / 1000
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + elapsed * bucket.rps)
+    bucket.lastRefill = now
+  }
+
+  /**
+   * Дождаться разрешения на запрос к хосту
+   */
+  async acquire (url: string): Promise<void> {
+    const bucket = this.getBucket(HostRateLimiter.getHost(url))
+    bucket.stats.requests++
+    let waited = 0
+
+    while (true) {
+      const now = Date.now()
+      if (bucket.blockedUntil > now) {
+        const wait = bucket.blockedUntil - now
+        waited += wait
+        await delay(wait)
+        continue
+      }
+
+      this.refill(bucket)
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1
+        break
+      }
+
+      const wait = Math.ceil(((1 - bucket.tokens) / bucket.rps) * 1000)
+      waited += wait
+      await delay(wait)
+    }
+
+    if (waited > 0) {
+      bucket.stats.throttled++
+      bucket.stats.throttledMs += waited
+    }
+  }
+
+  /**
+   * Сообщить об ответе 429: хост блокируется на Retry-After
+   * или на экспоненциальную задержку с jitter
+   *
+   * Задержка растет с каждым 429 подряд от хоста и сбрасывается
+   * первым ответом без 429 (reportSuccess).
+   */
+  reportRateLimited (url: string, retryAfterMs: number | null): number {
+    const bucket = this.getBucket(HostRateLimiter.getHost(url))
+    bucket.rateLimitStreak++
+    const wait = retryAfterMs ?? backoffWithJitter(bucket.rateLimitStreak, 1000)
+
+    bucket.stats.rateLimitResponses++
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + wait)
+    bucket.tokens = 0
+
+    return wait
+  }
+
+  /**
+   * Сообщить об ответе без 429: серия ответов 429 хоста прерывается
+   */
+  reportSuccess (url: string): void {
+    this.getBucket(HostRateLimiter.getHost(url)).rateLimitStreak = 0
+  }
+
+  /**
+   * Получить статистику ограничений по хостам
+   */
+  getStats (): HostThrottleStats[] {
+    return [...this.buckets.values()]
+      .map(bucket => ({ ...bucket.stats }))
+      .sort((a, b) => b.throttled + b.rateLimitResponses - (a.throttled + a.rateLimitResponses))
+  }
+
+  /**
+   * Сбросить статистику (перед новой проверкой)
+   */
+  resetStats (): void {
+    for (const bucket of this.buckets.values()) {
+      bucket.stats = { ...bucket.stats, requests: 0, throttled: 0, throttledMs: 0, rateLimitResponses: 0 }
+    }
+  }
+}
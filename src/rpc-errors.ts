@@ -0,0 +1,108 @@
+import { BaseError, HttpRequestError, RpcRequestError, TimeoutError } from 'viem'
+
+/**
+ * Класс ошибки RPC запроса
+ */
+export type RPCErrorClass =
+  | 'timeout'
+  | 'rate_limited'
+  | 'server_error'
+  | 'http_error'
+  | 'rpc_error'
+  | 'network'
+  | 'unknown'
+
+/**
+ * Найти первую ошибку нужного типа в цепочке причин viem
+ */
+function findCause<T extends Error> (error: unknown, predicate: (cause: unknown) => cause is T): T | null {
+  if (predicate(error)) {
+    return error
+  }
+  if (error instanceof BaseError) {
+    const found = error.walk(cause => predicate(cause))
+    return found && predicate(found) ? found : null
+  }
+  return null
+}
+
+/**
+ * Получить HTTP ошибку из цепочки причин
+ */
+export function getHttpRequestError (error: unknown): HttpRequestError | null {
+  return findCause(error, (cause): cause is HttpRequestError => cause instanceof HttpRequestError)
+}
+
+/**
+ * Получить HTTP статус ошибки, если он известен
+ */
+export function getHttpStatus (error: unknown): number | null {
+  return getHttpRequestError(error)?.status ?? null
+}
+
+/**
+ * Определить класс ошибки RPC запроса
+ */
+export function classifyRPCError (error: unknown): RPCErrorClass {
+  if (findCause(error, (cause): cause is TimeoutError => cause instanceof TimeoutError)) {
+    return 'timeout'
+  }
+
+  const status = getHttpStatus(error)
+  if (status === 429) {
+    return 'rate_limited'
+  }
+  if (status !== null && status >= 500) {
+    return 'server_error'
+  }
+  if (status !== null && status >= 400) {
+    return 'http_error'
+  }
+
+  const rpcError = findCause(error, (cause): cause is RpcRequestError => cause instanceof RpcRequestError)
+  if (rpcError) {
+    // -32005: limit exceeded (стандартный код для rate limit у многих провайдеров)
+    return rpcError.code === -32005 ? 'rate_limited' : 'rpc_error'
+  }
+
+  const message = error instanceof Error ? error.message.toLowerCase() : ''
+  if (message.includes('timeout') || message.includes('таймаут') || message.includes('timed out')) {
+    return 'timeout'
+  }
+  if (message.includes('429') || message.includes('rate limit') || message.includes('too many requests')) {
+    return 'rate_limited'
+  }
+  if (message.includes('fetch failed') || message.includes('econnrefused') || message.includes('enotfound') || message.includes('econnreset')) {
+    return 'network'
+  }
+  if (error instanceof HttpRequestError) {
+    return 'network'
+  }
+
+  return 'unknown'
+}
+
+/**
+ * Класс и текст ошибки для вывода в результатах
+ */
+export interface RPCErrorInfo {
+  errorClass: RPCErrorClass
+  message: string
+}
+
+/**
+ * Описать ошибку: класс и текст
+ *
+ * Обертки с cause (new Error(текст, { cause })) классифицируются по исходной
+ * ошибке, текст берется из обертки. Из многострочных сообщений viem (с телом
+ * запроса) остается первая строка и подробности ответа RPC.
+ */
+export function describeRPCError (error: unknown): RPCErrorInfo {
+  const original = error instanceof Error && error.cause !== undefined ? error.cause : error
+  const message = error instanceof Error ? error.message.split('\n')[0]! : 'Неизвестная ошибка'
+  const details = original instanceof BaseError && original.details && !message.includes(original.details) ? ` (${original.details})` : ''
+  return {
+    errorClass: classifyRPCError(original),
+    message: `${message}${details}`
+  }
+}
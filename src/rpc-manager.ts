@@ -1,11 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { createPublicClient, http, PublicClient, Chain } from 'viem'
+import * as fs from 'fs'
+import { createPublicClient, http, PublicClient, Chain, HttpTransportConfig, Transport } from 'viem'
 import {
   mainnet, bsc, polygon, fantom, avalanche, optimism, arbitrum, base,
   gnosis, celo, moonbeam, cronos, aurora, klaytn, boba,
   metis, fuse, moonriver, zkSync, polygonZkEvm, linea, mantle, scroll, blast,
   mode, flare, rootstock, xdc, taiko, fraxtal
 } from 'viem/chains'
+import { loadNetworkRegistry } from './network-registry.js'
+import { createProxyFetch, closeProxyDispatchers, formatProxy, parseProxyLine, FetchFn } from './proxy-transport.js'
+import { RPCEndpointPool, EndpointStats } from './rpc-pool.js'
+import { classifyRPCError, getHttpRequestError, RPCErrorClass } from './rpc-errors.js'
+import { HostRateLimiter, HostThrottleStats, backoffWithJitter, parseRetryAfter } from './rate-limiter.js'
+import { sendJsonRpcBatch, JsonRpcCall, JsonRpcCallResult } from './json-rpc-batch.js'
 
 /**
  * Конфигурация сети с RPC endpoints
@@ -21,6 +28,11 @@ export interface NetworkConfig {
     symbol: string
     decimals: number
   }
+  wrappedNativeAddress?: string // Wrapped-версия нативного токена (WETH, WBNB...) - запасной источник цены
+  nativeCoinKey?: string // coinKey токена из списков, по которому оценивается нативный токен
+  uniswapV3PositionManager?: string // NonfungiblePositionManager Uniswap V3 (позиции ликвидности)
+  aaveV3Pool?: string // Pool рынка Aave v3 (займы и залоги)
+  discoveryLookbackBlocks?: number // Глубина первого поиска токенов по логам Transfer, блоков
 }
 
 /**
@@ -35,27 +47,70 @@ export interface ProxyConfig {
 }
 
 /**
- * Кэшированные данные
+ * Результат проверки здоровья RPC endpoint
  */
-interface HealthCheckResult {
+export interface RPCHealthResult {
+  rpcUrl: string
   isHealthy: boolean
+  chainIdMatches: boolean
+  reportedChainId: number | null
+  blockNumber: bigint | null
+  blockLag: number
+  latency: number
   lastCheck: number
+  error?: string
+  errorClass?: RPCErrorClass
+}
+
+/**
+ * Результат диагностики сети: состояние всех RPC endpoints
+ */
+export interface NetworkDiagnosticsResult {
+  chainId: number
+  name: string
+  isAvailable: boolean
+  workingRPC?: string
+  bestBlock: bigint | null
+  healthyEndpoints: number
+  endpoints: RPCHealthResult[]
+  error?: string
 }
 
 /**
  * Менеджер RPC подключений с fallback системой
  */
 export class RPCManager {
-  private clientCache = new Map<number, PublicClient>()
-  private healthCache = new Map<string, HealthCheckResult>()
+  private clientCache = new Map<string, PublicClient>()
+  private pools = new Map<number, Promise<RPCEndpointPool>>()
+  private blockTimestampCache = new Map<string, bigint>()
+  private blockByTimestampCache = new Map<string, Promise<bigint>>()
+  private healthCache = new Map<string, RPCHealthResult>()
+  private multicallProbes = new Map<number, Promise<boolean>>()
+  private multicallSupport = new Map<number, boolean>()
+  private batchUnsupported = new Set<number>()
+  private batchInvalidWarned = new Set<number>()
   private readonly HEALTH_CHECK_TTL = 5 * 60 * 1000 // 5 минут
+  private readonly MAX_BLOCK_LAG = 100 // Максимальное отставание от лучшего endpoint в блоках
+  private readonly DIAGNOSTICS_CONCURRENCY = 10 // Сетей, проверяемых одновременно при диагностике
   private proxies: ProxyConfig[] = []
   private proxyIndex = 0
+  private readonly rateLimiter: HostRateLimiter
 
   /**
-   * Конфигурации всех сетей поддерживаемых LiFi с множественными RPC endpoints
+   * Итоговые конфигурации сетей: встроенные + пользовательский реестр
    */
-  private readonly networkConfigs: NetworkConfig[] = [
+  private readonly networkConfigs: NetworkConfig[]
+
+  constructor () {
+    this.networkConfigs = loadNetworkRegistry(this.builtinNetworkConfigs)
+    this.rateLimiter = HostRateLimiter.fromFile()
+    this.loadProxies()
+  }
+
+  /**
+   * Встроенные конфигурации сетей поддерживаемых LiFi с множественными RPC endpoints
+   */
+  private readonly builtinNetworkConfigs: NetworkConfig[] = [
     {
       chainId: 1,
       name: 'Ethereum',
@@ -71,7 +126,10 @@ export class RPCManager {
         'https://eth-mainnet.g.alchemy.com/v2/demo'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      uniswapV3PositionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+      aaveV3Pool: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2'
     },
     {
       chainId: 10,
@@ -82,7 +140,10 @@ export class RPCManager {
         'https://optimism.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006',
+      uniswapV3PositionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+      aaveV3Pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD'
     },
     {
       chainId: 14,
@@ -147,7 +208,10 @@ export class RPCManager {
         'https://bsc.llamarpc.com'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 }
+      nativeCurrency: { name: 'BNB', symbol: 'BNB', decimals: 18 },
+      wrappedNativeAddress: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+      uniswapV3PositionManager: '0x7b8A01B39D58278b5DE7e48c8487c2Cd5EBbe1A4',
+      aaveV3Pool: '0x6807dc923806fE8Fd134338EABCA509979a7e0cB'
     },
     {
       chainId: 100,
@@ -159,7 +223,9 @@ export class RPCManager {
         'https://gnosis.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'xDAI Native Token', symbol: 'xDAI', decimals: 18 }
+      nativeCurrency: { name: 'xDAI Native Token', symbol: 'xDAI', decimals: 18 },
+      wrappedNativeAddress: '0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d',
+      aaveV3Pool: '0xb50201558B00496A145fE76f7424749556E326D8'
     },
     {
       chainId: 122,
@@ -191,7 +257,8 @@ export class RPCManager {
         'https://unichain-rpc.publicnode.com'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006'
     },
     {
       chainId: 137,
@@ -208,7 +275,10 @@ export class RPCManager {
         'https://matic-mainnet.chainstacklabs.com'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'Polygon Ecosystem Token', symbol: 'POL', decimals: 18 }
+      nativeCurrency: { name: 'Polygon Ecosystem Token', symbol: 'POL', decimals: 18 },
+      wrappedNativeAddress: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+      uniswapV3PositionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+      aaveV3Pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD'
     },
     {
       chainId: 146,
@@ -253,7 +323,8 @@ export class RPCManager {
         'https://fantom.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'FTM', symbol: 'FTM', decimals: 18 }
+      nativeCurrency: { name: 'FTM', symbol: 'FTM', decimals: 18 },
+      wrappedNativeAddress: '0x21be370D5312f44cB42ce377BC9b8a0cEF1A4C83'
     },
     {
       chainId: 252,
@@ -284,7 +355,8 @@ export class RPCManager {
         'https://mainnet.era.zksync.io'
       ],
       multicallAddress: '0xF9cda624FBC7e059355ce98a31693d299FACd963',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x5AEa5775959fBC2557Cc8789bC1bf90A239D9a91'
     },
     {
       chainId: 480,
@@ -295,7 +367,8 @@ export class RPCManager {
         'https://worldchain-mainnet.gateway.tenderly.co'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006'
     },
     {
       chainId: 999,
@@ -341,7 +414,8 @@ export class RPCManager {
         'https://lisk.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006'
     },
     {
       chainId: 1284,
@@ -377,18 +451,6 @@ export class RPCManager {
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
       nativeCurrency: { name: 'SEI', symbol: 'SEI', decimals: 18 }
     },
-    {
-      chainId: 999,
-      name: 'Hyperliquid',
-      chain: { id: 999, name: 'Hyperliquid', nativeCurrency: { name: 'USD Coin (Perps)', symbol: 'USDC', decimals: 6 }, rpcUrls: ['https://hyperliquid.drpc.org'] } as any,
-      rpcUrls: [
-        'https://hyperliquid.drpc.org',
-        'https://rpc.hyperliquid.xyz/evm',
-        'https://hyperliquid-json-rpc.stakely.io'
-      ],
-      multicallAddress: '',
-      nativeCurrency: { name: 'USD Coin (Perps)', symbol: 'USDC', decimals: 6 }
-    },
     {
       chainId: 1480,
       name: 'Vana',
@@ -417,7 +479,8 @@ export class RPCManager {
         'https://soneium-mainnet.blastapi.io/0e189c72-1523-48e1-8727-7dd520f19c1f'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006'
     },
     {
       chainId: 1923,
@@ -450,7 +513,8 @@ export class RPCManager {
         'https://mantle.public-rpc.com'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'MNT', symbol: 'MNT', decimals: 18 }
+      nativeCurrency: { name: 'MNT', symbol: 'MNT', decimals: 18 },
+      wrappedNativeAddress: '0x78c1b0C915c4FAA5FffA6CAbf0219DA63d7f4cb8'
     },
     {
       chainId: 8217,
@@ -473,7 +537,10 @@ export class RPCManager {
         'https://base.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006',
+      uniswapV3PositionManager: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+      aaveV3Pool: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5'
     },
     {
       chainId: 13371,
@@ -504,7 +571,8 @@ export class RPCManager {
         'https://mode.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x4200000000000000000000000000000000000006'
     },
     {
       chainId: 42161,
@@ -520,7 +588,10 @@ export class RPCManager {
         'https://arbitrum-mainnet.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 }
+      nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
+      wrappedNativeAddress: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+      uniswapV3PositionManager: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+      aaveV3Pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD'
     },
     {
       chainId: 42220,
@@ -552,7 +623,10 @@ export class RPCManager {
         'https://avalanche.drpc.org'
       ],
       multicallAddress: '0xcA11bde05977b3631167028862bE2a173976CA11',
-      nativeCurrency: { name: 'AVAX', symbol: 'AVAX', decimals: 18 }
+      nativeCurrency: { name: 'AVAX', symbol: 'AVAX', decimals: 18 },
+      wrappedNativeAddress: '0xB31f66AA3C1e785363F0875A1B74E27b85FD66c7',
+      uniswapV3PositionManager: '0x655C406EBFa14EE2006250925e54ec43AD184f8B',
+      aaveV3Pool: '0x794a61358D6845594F94dc1DB02A252b5b4814aD'
     },
     {
       chainId: 57073,
@@ -667,110 +741,381 @@ export class RPCManager {
   }
 
   /**
-   * Проверить здоровье RPC endpoint
+   * Проверить здоровье RPC endpoint: chainId, номер блока и задержку
    */
-  private async checkRPCHealth (rpcUrl: string): Promise<boolean> {
-    const cacheKey = `health_${rpcUrl}`
+  private async checkRPCHealth (rpcUrl: string, config: NetworkConfig, useCache: boolean = true): Promise<RPCHealthResult> {
+    const cacheKey = `health_${config.chainId}_${rpcUrl}`
     const cached = this.healthCache.get(cacheKey)
 
-    if (cached && Date.now() - cached.lastCheck < this.HEALTH_CHECK_TTL) {
-      return cached.isHealthy
+    if (useCache && cached && Date.now() - cached.lastCheck < this.HEALTH_CHECK_TTL) {
+      return cached
     }
 
+    const startedAt = Date.now()
+    let result: RPCHealthResult
+
     try {
       const client = createPublicClient({
-        chain: mainnet, // Используем mainnet для тестирования
-        transport: http(rpcUrl, {
+        chain: config.chain,
+        transport: this.createTransport(rpcUrl, {
           timeout: 3000, // 3 секунды таймаут для проверки здоровья
           retryCount: 1,
           retryDelay: 300
         })
       })
 
-      // Простой тест - получаем номер блока
-      await client.getBlockNumber()
+      // Запрашиваем chainId и номер блока параллельно
+      const [reportedChainId, blockNumber] = await Promise.all([
+        client.getChainId(),
+        client.getBlockNumber()
+      ])
+      const chainIdMatches = reportedChainId === config.chainId
 
-      this.healthCache.set(cacheKey, {
-        isHealthy: true,
-        lastCheck: Date.now()
-      })
-
-      return true
-    } catch {
-      this.healthCache.set(cacheKey, {
+      result = {
+        rpcUrl,
+        isHealthy: chainIdMatches,
+        chainIdMatches,
+        reportedChainId,
+        blockNumber,
+        blockLag: 0,
+        latency: Date.now() - startedAt,
+        lastCheck: Date.now(),
+        ...(!chainIdMatches && { error: `Неверный chainId: ожидался ${config.chainId}, получен ${reportedChainId}` })
+      }
+    } catch (error) {
+      result = {
+        rpcUrl,
         isHealthy: false,
-        lastCheck: Date.now()
-      })
+        chainIdMatches: false,
+        reportedChainId: null,
+        blockNumber: null,
+        blockLag: 0,
+        latency: Date.now() - startedAt,
+        lastCheck: Date.now(),
+        error: error instanceof Error ? error.message : 'Неизвестная ошибка',
+        errorClass: classifyRPCError(error)
+      }
+    }
 
-      return false
+    this.healthCache.set(cacheKey, result)
+    return result
+  }
+
+  /**
+   * Проверить все RPC endpoints сети и отсортировать их по качеству
+   *
+   * Endpoints с неверным chainId или отстающие от лучшего более чем на
+   * MAX_BLOCK_LAG блоков считаются нездоровыми. Здоровые сортируются по задержке.
+   * С useCache = false все endpoints проверяются заново.
+   */
+  async rankRPCEndpoints (chainId: number, useCache: boolean = true): Promise<RPCHealthResult[]> {
+    const config = this.getNetworkConfig(chainId)
+    if (!config) {
+      throw new Error(`Сеть с chainId ${chainId} не поддерживается`)
     }
+
+    const checks = await Promise.all(config.rpcUrls.map(rpcUrl => this.checkRPCHealth(rpcUrl, config, useCache)))
+
+    // Лучший блок среди endpoints с правильным chainId
+    const bestBlock = checks.reduce<bigint>((best, check) =>
+      check.chainIdMatches && check.blockNumber !== null && check.blockNumber > best ? check.blockNumber : best, 0n)
+
+    const ranked = checks.map(check => {
+      if (!check.chainIdMatches || check.blockNumber === null) {
+        return check
+      }
+
+      const blockLag = Number(bestBlock - check.blockNumber)
+      const isFresh = blockLag <= this.MAX_BLOCK_LAG
+
+      return {
+        ...check,
+        blockLag,
+        isHealthy: isFresh,
+        ...(!isFresh && { error: `Отставание ${blockLag} блоков от лучшего endpoint` })
+      }
+    })
+
+    return ranked.sort((a, b) => {
+      if (a.isHealthy !== b.isHealthy) {
+        return a.isHealthy ? -1 : 1
+      }
+      return a.latency - b.latency
+    })
   }
 
   /**
-   * Найти рабочий RPC endpoint для сети
+   * Создать пул endpoints сети, исключив не прошедшие проверку здоровья
    */
-  private async findWorkingRPC (chainId: number): Promise<string | null> {
+  private async createPool (chainId: number): Promise<RPCEndpointPool> {
     const config = this.getNetworkConfig(chainId)
     if (!config) {
       throw new Error(`Сеть с chainId ${chainId} не поддерживается`)
     }
 
-    for (const rpcUrl of config.rpcUrls) {
-      if (await this.checkRPCHealth(rpcUrl)) {
-        return rpcUrl
+    const ranked = await this.rankRPCEndpoints(chainId)
+    const pool = new RPCEndpointPool(chainId, config.rpcUrls)
+
+    for (const check of ranked) {
+      if (check.isHealthy) {
+        pool.seedLatency(check.rpcUrl, check.latency)
+      } else if (check.reportedChainId !== null && !check.chainIdMatches) {
+        // Endpoint другой сети исключаем навсегда
+        pool.disable(check.rpcUrl, check.error || 'Неверный chainId', Number.POSITIVE_INFINITY)
+      } else {
+        pool.disable(check.rpcUrl, check.error || 'Endpoint не прошел проверку здоровья')
       }
     }
 
-    return null
+    return pool
+  }
+
+  /**
+   * Получить пул endpoints сети (создается один раз на сеть)
+   */
+  async getPool (chainId: number): Promise<RPCEndpointPool> {
+    let pool = this.pools.get(chainId)
+    if (!pool) {
+      pool = this.createPool(chainId)
+      this.pools.set(chainId, pool)
+      // Не кэшируем неудачное создание пула
+      pool.catch(() => this.pools.delete(chainId))
+    }
+    return await pool
   }
 
   /**
-   * Создать клиент для сети с fallback системой
+   * Получить кэшированный клиент для конкретного endpoint
    */
-  async createClient (chainId: number): Promise<PublicClient> {
-    // Проверяем кэш
-    if (this.clientCache.has(chainId)) {
-      return this.clientCache.get(chainId)!
+  private getEndpointClient (config: NetworkConfig, rpcUrl: string): PublicClient {
+    const cacheKey = `${config.chainId}_${rpcUrl}`
+    const cached = this.clientCache.get(cacheKey)
+    if (cached) {
+      return cached
     }
 
+    const client = createPublicClient({
+      chain: config.chain,
+      transport: this.createTransport(rpcUrl, {
+        timeout: 8000, // 8 секунд таймаут для лучшей производительности
+        retryCount: 1, // Уменьшаем количество повторов
+        retryDelay: 500 // Уменьшаем задержку между повторами
+      })
+    })
+
+    this.clientCache.set(cacheKey, client)
+    return client
+  }
+
+  /**
+   * Выполнить операцию через пул endpoints сети
+   *
+   * Каждая попытка идет на другой endpoint, выбранный пулом. Результат
+   * (задержка, ошибка, 429/5xx) сообщается в circuit breaker endpoint.
+   */
+  async execute<T> (
+    chainId: number,
+    operation: (client: PublicClient, rpcUrl: string) => Promise<T>,
+    maxAttempts: number = 3
+  ): Promise<T> {
     const config = this.getNetworkConfig(chainId)
     if (!config) {
       throw new Error(`Сеть с chainId ${chainId} не поддерживается`)
     }
 
-    // Ищем рабочий RPC
-    const workingRPC = await this.findWorkingRPC(chainId)
-    if (!workingRPC) {
-      throw new Error(`Все RPC endpoints для сети ${config.name} недоступны`)
+    const pool = await this.getPool(chainId)
+    const tried = new Set<string>()
+    let lastError: unknown = null
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // Сначала пробуем endpoints, которые еще не использовались в этой операции
+      const rpcUrl = pool.acquire(tried) || pool.acquire()
+      if (!rpcUrl) {
+        break
+      }
+      tried.add(rpcUrl)
+
+      const startedAt = Date.now()
+      try {
+        const result = await operation(this.getEndpointClient(config, rpcUrl), rpcUrl)
+        pool.reportSuccess(rpcUrl, Date.now() - startedAt)
+        return result
+      } catch (error) {
+        const errorClass = classifyRPCError(error)
+        // При 429 держим endpoint закрытым столько, сколько просит сервер
+        const retryAfter = errorClass === 'rate_limited'
+          ? parseRetryAfter(getHttpRequestError(error)?.headers?.get('retry-after'))
+          : null
+
+        pool.reportFailure(
+          rpcUrl,
+          errorClass,
+          error instanceof Error ? error.message : 'Неизвестная ошибка',
+          retryAfter ?? undefined
+        )
+        lastError = error
+
+        if (attempt < maxAttempts) {
+          await new Promise(resolve => globalThis.setTimeout(resolve, backoffWithJitter(attempt)))
+        }
+      }
     }
 
-    try {
-      const client = createPublicClient({
-        chain: config.chain,
-        transport: http(workingRPC, {
-          timeout: 8000, // 8 секунд таймаут для лучшей производительности
-          retryCount: 1, // Уменьшаем количество повторов
-          retryDelay: 500 // Уменьшаем задержку между повторами
-        })
-      })
+    if (lastError instanceof Error) {
+      throw lastError
+    }
+    throw new Error(`Все RPC endpoints для сети ${config.name} недоступны`)
+  }
 
-      // Тестируем клиент
-      await client.getBlockNumber()
+  /**
+   * Получить номер последнего блока сети
+   */
+  async getBlockNumber (chainId: number): Promise<bigint> {
+    return await this.execute(chainId, client => client.getBlockNumber({ cacheTime: 0 }))
+  }
 
-      // Кэшируем клиент
-      this.clientCache.set(chainId, client)
+  /**
+   * Получить timestamp блока (в секундах)
+   */
+  async getBlockTimestamp (chainId: number, blockNumber: bigint): Promise<bigint> {
+    const cacheKey = `${chainId}_${blockNumber}`
+    const cached = this.blockTimestampCache.get(cacheKey)
+    if (cached !== undefined) {
+      return cached
+    }
 
-      return client
-    } catch (error) {
-      throw new Error(`Не удалось создать клиент для сети ${config.name}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    const block = await this.execute(chainId, client => client.getBlock({ blockNumber }))
+    this.blockTimestampCache.set(cacheKey, block.timestamp)
+    return block.timestamp
+  }
+
+  /**
+   * Найти последний блок, созданный не позже указанного времени (в секундах)
+   *
+   * Параллельные запросы для одной сети и даты используют один поиск.
+   */
+  async findBlockByTimestamp (chainId: number, timestamp: number): Promise<bigint> {
+    const cacheKey = `${chainId}_${timestamp}`
+    let search = this.blockByTimestampCache.get(cacheKey)
+    if (!search) {
+      search = this.searchBlockByTimestamp(chainId, BigInt(Math.floor(timestamp)))
+      this.blockByTimestampCache.set(cacheKey, search)
+      search.catch(() => this.blockByTimestampCache.delete(cacheKey))
     }
+    return await search
   }
 
   /**
-   * Получить клиент из кэша или создать новый
+   * Бинарный поиск блока по времени: O(log N) запросов eth_getBlockByNumber
    */
-  async getClient (chainId: number): Promise<PublicClient> {
-    return await this.createClient(chainId)
+  private async searchBlockByTimestamp (chainId: number, target: bigint): Promise<bigint> {
+    const latest = await this.getBlockNumber(chainId)
+
+    if (await this.getBlockTimestamp(chainId, latest) <= target) {
+      return latest
+    }
+
+    if (await this.getBlockTimestamp(chainId, 0n) > target) {
+      throw new Error(`Дата ${new Date(Number(target) * 1000).toISOString()} раньше генезис-блока сети ${chainId}`)
+    }
+
+    // Инвариант: timestamp(low) <= target < timestamp(high)
+    let low = 0n
+    let high = latest
+    while (high - low > 1n) {
+      const mid = (low + high) / 2n
+      if (await this.getBlockTimestamp(chainId, mid) <= target) {
+        low = mid
+      } else {
+        high = mid
+      }
+    }
+
+    return low
+  }
+
+  /**
+   * Выполнить пакетный JSON-RPC запрос через пул endpoints сети
+   *
+   * Возвращает null, если пакет выполнить не удалось и вызовы нужно отправить
+   * по одному. Сеть запоминается как не поддерживающая пакеты только при явном
+   * отказе endpoint (ошибка на весь пакет); некорректный ответ влияет лишь на
+   * текущий запрос, следующий снова пробует пакет.
+   */
+  async executeBatch (chainId: number, calls: JsonRpcCall[], timeout: number = 10000): Promise<JsonRpcCallResult[] | null> {
+    if (this.batchUnsupported.has(chainId)) {
+      return null
+    }
+
+    const outcome = await this.execute(chainId, (_client, rpcUrl) =>
+      sendJsonRpcBatch(this.createEndpointFetch(rpcUrl), rpcUrl, calls, timeout)
+    )
+    const networkName = this.getNetworkConfig(chainId)?.name || chainId
+
+    if (outcome.status === 'unsupported') {
+      this.batchUnsupported.add(chainId)
+      console.warn(`⚠️ RPC сети ${networkName} не поддерживает пакетные запросы (${outcome.reason}), используем одиночные вызовы`)
+      return null
+    }
+
+    if (outcome.status === 'invalid') {
+      if (!this.batchInvalidWarned.has(chainId)) {
+        this.batchInvalidWarned.add(chainId)
+        console.warn(`⚠️ Некорректный ответ на пакетный запрос в сети ${networkName} (${outcome.reason}), запрос выполнен одиночными вызовами`)
+      }
+      return null
+    }
+
+    return outcome.results
+  }
+
+  /**
+   * Проверить, что контракт Multicall3 развернут в сети (eth_getCode)
+   *
+   * Результат кэшируется. Если проверку выполнить не удалось, считаем
+   * контракт доступным и повторим проверку при следующем обращении.
+   */
+  async probeMulticall3 (chainId: number): Promise<boolean> {
+    const known = this.multicallSupport.get(chainId)
+    if (known !== undefined) {
+      return known
+    }
+
+    let probe = this.multicallProbes.get(chainId)
+    if (!probe) {
+      probe = this.runMulticall3Probe(chainId)
+      this.multicallProbes.set(chainId, probe)
+      probe.finally(() => this.multicallProbes.delete(chainId)).catch(() => {})
+    }
+    return await probe
+  }
+
+  /**
+   * Выполнить проверку наличия Multicall3
+   */
+  private async runMulticall3Probe (chainId: number): Promise<boolean> {
+    const address = this.getMulticall3Address(chainId)
+    if (!address) {
+      this.multicallSupport.set(chainId, false)
+      return false
+    }
+
+    try {
+      const code = await this.execute(chainId, client => client.getCode({ address: address as `0x${string}` }))
+      const deployed = !!code && code !== '0x'
+      this.multicallSupport.set(chainId, deployed)
+      return deployed
+    } catch {
+      return true
+    }
+  }
+
+  /**
+   * Получить статистику пула endpoints сети
+   */
+  async getPoolStats (chainId: number): Promise<EndpointStats[]> {
+    const pool = await this.getPool(chainId)
+    return pool.getStats()
   }
 
   /**
@@ -778,7 +1123,13 @@ export class RPCManager {
    */
   clearCache (): void {
     this.clientCache.clear()
+    this.pools.clear()
     this.healthCache.clear()
+    this.blockTimestampCache.clear()
+    this.blockByTimestampCache.clear()
+    this.multicallSupport.clear()
+    this.batchUnsupported.clear()
+    this.batchInvalidWarned.clear()
     console.log('🧹 Кэш RPC клиентов очищен')
   }
 
@@ -788,8 +1139,8 @@ export class RPCManager {
   async closeAllConnections (): Promise<void> {
     console.log('🔄 Закрываем все RPC соединения...')
 
-    // Закрываем все кэшированные клиенты
-    for (const [chainId] of this.clientCache) {
+    // Закрываем клиенты всех пулов
+    for (const [chainId] of this.pools) {
       try {
         // viem клиенты автоматически закрывают соединения при garbage collection
         // но мы можем принудительно очистить кэш
@@ -801,8 +1152,12 @@ export class RPCManager {
 
     // Очищаем кэши
     this.clientCache.clear()
+    this.pools.clear()
     this.healthCache.clear()
 
+    // Закрываем соединения с прокси
+    await closeProxyDispatchers()
+
     console.log('✅ Все RPC соединения закрыты')
   }
 
@@ -817,32 +1172,65 @@ export class RPCManager {
   }
 
   /**
-   * Проверить доступность всех сетей
+   * Диагностика всех сетей: параллельно проверяет каждый endpoint каждой сети
+   *
+   * Для endpoint возвращаются задержка, последний блок, отставание от лучшего
+   * endpoint, совпадение chainId и класс ошибки. Кэш проверок не используется,
+   * свежие результаты сохраняются в кэш здоровья.
    */
-  async checkAllNetworks (): Promise<Array<{ chainId: number; name: string; isAvailable: boolean; workingRPC?: string }>> {
-    const results: Array<{ chainId: number; name: string; isAvailable: boolean; workingRPC?: string }> = []
+  async checkAllNetworks (chainIds: number[] = this.getSupportedChainIds()): Promise<NetworkDiagnosticsResult[]> {
+    const results: NetworkDiagnosticsResult[] = new Array(chainIds.length)
+    let nextIndex = 0
 
-    for (const config of this.networkConfigs) {
-      try {
-        const workingRPC = await this.findWorkingRPC(config.chainId)
-        results.push({
-          chainId: config.chainId,
-          name: config.name,
-          isAvailable: !!workingRPC,
-          ...(workingRPC && { workingRPC })
-        })
-      } catch {
-        results.push({
-          chainId: config.chainId,
-          name: config.name,
-          isAvailable: false
-        })
+    const worker = async (): Promise<void> => {
+      while (nextIndex < chainIds.length) {
+        const index = nextIndex++
+        results[index] = await this.diagnoseNetwork(chainIds[index]!)
       }
     }
 
+    const workers = Array.from({ length: Math.min(this.DIAGNOSTICS_CONCURRENCY, chainIds.length) }, () => worker())
+    await Promise.all(workers)
+
     return results
   }
 
+  /**
+   * Диагностика одной сети
+   */
+  private async diagnoseNetwork (chainId: number): Promise<NetworkDiagnosticsResult> {
+    const name = this.getNetworkConfig(chainId)?.name || `Chain ${chainId}`
+
+    try {
+      const endpoints = await this.rankRPCEndpoints(chainId, false)
+      const healthy = endpoints.filter(endpoint => endpoint.isHealthy)
+      const bestBlock = endpoints.reduce<bigint | null>((best, endpoint) =>
+        endpoint.chainIdMatches && endpoint.blockNumber !== null && (best === null || endpoint.blockNumber > best)
+          ? endpoint.blockNumber
+          : best, null)
+
+      return {
+        chainId,
+        name,
+        isAvailable: healthy.length > 0,
+        ...(healthy[0] && { workingRPC: healthy[0].rpcUrl }),
+        bestBlock,
+        healthyEndpoints: healthy.length,
+        endpoints
+      }
+    } catch (error) {
+      return {
+        chainId,
+        name,
+        isAvailable: false,
+        bestBlock: null,
+        healthyEndpoints: 0,
+        endpoints: [],
+        error: error instanceof Error ? error.message : 'Неизвестная ошибка'
+      }
+    }
+  }
+
   /**
    * Получить все сети поддерживаемые LiFi
    */
@@ -852,10 +1240,15 @@ export class RPCManager {
 
   /**
    * Проверить поддерживает ли сеть Multicall3
+   *
+   * Учитывает результат probeMulticall3, до проверки смотрит только на адрес в конфигурации.
    */
   supportsMulticall3 (chainId: number): boolean {
     const config = this.getNetworkConfig(chainId)
-    return config ? !!config.multicallAddress : false
+    if (!config) {
+      return false
+    }
+    return this.multicallSupport.get(chainId) ?? !!config.multicallAddress
   }
 
   /**
@@ -879,7 +1272,7 @@ export class RPCManager {
     // Создаем клиент с конкретным RPC URL
     const client = createPublicClient({
       chain: networkConfig.chain,
-      transport: http(rpcUrl)
+      transport: this.createTransport(rpcUrl)
     })
 
     return client
@@ -889,30 +1282,31 @@ export class RPCManager {
    * Загрузить прокси из файла
    */
   loadProxies (): void {
+    if (!fs.existsSync('proxies.txt')) {
+      console.log('⚠️ Файл proxies.txt не найден, работаем без прокси')
+      this.proxies = []
+      return
+    }
+
     try {
-      const fs = require('fs')
       const proxiesText = fs.readFileSync('proxies.txt', 'utf8')
       const lines = proxiesText.split('\n').filter((line: string) =>
-        line.trim() && !line.startsWith('#')
+        line.trim() && !line.trim().startsWith('#')
       )
 
-      this.proxies = lines.map((line: string) => {
-        const parts = line.trim().split(':')
-        if (parts.length >= 2) {
-          return {
-            host: parts[0],
-            port: parseInt(parts[1] || '8080'),
-            username: parts[2],
-            password: parts[3],
-            protocol: 'http' as const
-          }
+      this.proxies = []
+      for (const line of lines) {
+        const proxy = parseProxyLine(line)
+        if (proxy) {
+          this.proxies.push(proxy)
+        } else {
+          console.warn(`⚠️ Пропущена некорректная строка прокси: ${line.trim().slice(0, 30)}...`)
         }
-        return null
-      }).filter((proxy: any) => proxy !== null) as ProxyConfig[]
+      }
 
       console.log(`🔗 Загружено ${this.proxies.length} прокси`)
-    } catch {
-      console.log('⚠️ Файл proxies.txt не найден, работаем без прокси')
+    } catch (error) {
+      console.warn('⚠️ Ошибка при чтении proxies.txt:', error instanceof Error ? error.message : 'Неизвестная ошибка')
       this.proxies = []
     }
   }
@@ -928,6 +1322,76 @@ export class RPCManager {
     return proxy || null
   }
 
+  /**
+   * Получить fetch для внешних HTTP запросов (LiFi API и т.д.)
+   *
+   * Каждый запрос уходит через следующий прокси из ротации, без прокси
+   * используется глобальный fetch.
+   */
+  getFetch (): FetchFn {
+    return (input, init) => {
+      const proxy = this.getNextProxy()
+      const url = input instanceof Request ? input.url : input.toString()
+      return this.createRateLimitedFetch(url, proxy ? createProxyFetch(proxy) : fetch)(input, init)
+    }
+  }
+
+  /**
+   * Обернуть fetch ограничителем запросов к хосту
+   *
+   * Перед запросом ждем свободный токен хоста, при ответе 429 блокируем
+   * хост на время из Retry-After (или на backoff с jitter).
+   */
+  private createRateLimitedFetch (url: string, baseFetch: FetchFn): FetchFn {
+    return async (input, init) => {
+      await this.rateLimiter.acquire(url)
+      const response = await baseFetch(input, init)
+
+      if (response.status === 429) {
+        this.rateLimiter.reportRateLimited(url, parseRetryAfter(response.headers.get('retry-after')))
+      } else {
+        this.rateLimiter.reportSuccess(url)
+      }
+
+      return response
+    }
+  }
+
+  /**
+   * Получить fetch для запросов к RPC endpoint с учетом прокси и лимитов запросов
+   */
+  private createEndpointFetch (rpcUrl: string, proxy: ProxyConfig | null = this.getNextProxy()): FetchFn {
+    return this.createRateLimitedFetch(rpcUrl, proxy ? createProxyFetch(proxy) : fetch)
+  }
+
+  /**
+   * Создать HTTP транспорт viem с учетом прокси и лимитов запросов
+   */
+  private createTransport (
+    rpcUrl: string,
+    options: Omit<HttpTransportConfig, 'fetchFn'> = {},
+    proxy: ProxyConfig | null = this.getNextProxy()
+  ): Transport {
+    return http(rpcUrl, {
+      ...options,
+      fetchFn: this.createEndpointFetch(rpcUrl, proxy)
+    })
+  }
+
+  /**
+   * Получить статистику ограничения запросов по хостам
+   */
+  getThrottleStats (): HostThrottleStats[] {
+    return this.rateLimiter.getStats()
+  }
+
+  /**
+   * Сбросить статистику ограничения запросов
+   */
+  resetThrottleStats (): void {
+    this.rateLimiter.resetStats()
+  }
+
   /**
    * Получить клиент с прокси
    */
@@ -943,26 +1407,16 @@ export class RPCManager {
       throw new Error(`Нет доступных RPC для сети ${networkConfig.name}`)
     }
 
-    // Создаем HTTP транспорт с прокси
-    let transport
-    if (proxy) {
-      // Для прокси используем простой HTTP транспорт
-      // Прокси будет работать через системные настройки
-      transport = http(rpcUrl)
-    } else {
-      transport = http(rpcUrl)
+    const selectedProxy = proxy || this.getNextProxy()
+    if (selectedProxy) {
+      console.log(`🔗 Сеть ${networkConfig.name} через прокси ${formatProxy(selectedProxy)}`)
     }
 
     const client = createPublicClient({
       chain: networkConfig.chain,
-      transport
+      transport: this.createTransport(rpcUrl, {}, selectedProxy)
     })
 
     return client
   }
 }
-
-/**
- * Глобальный экземпляр менеджера RPC
- */
-export const rpcManager = new RPCManager()
@@ -0,0 +1,201 @@
+import { RPCErrorClass } from './rpc-errors.js'
+
+/**
+ * Состояние circuit breaker для endpoint
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Статистика RPC endpoint в пуле
+ */
+export interface EndpointStats {
+  rpcUrl: string
+  state: CircuitState
+  successes: number
+  failures: number
+  rateLimited: number
+  serverErrors: number
+  consecutiveFailures: number
+  avgLatency: number
+  inFlight: number
+  openedAt: number | null
+  cooldown: number
+  lastError?: string
+}
+
+/**
+ * Настройки пула endpoints
+ */
+export interface RPCPoolOptions {
+  failureThreshold?: number // Сколько ошибок подряд открывают circuit
+  baseCooldown?: number // Базовое время в состоянии open, мс
+  maxCooldown?: number // Максимальное время в состоянии open, мс
+}
+
+/**
+ * Пул RPC endpoints одной сети с circuit breaker для каждого endpoint
+ *
+ * closed    - endpoint работает, получает нагрузку
+ * open      - endpoint исключен после серии ошибок или 429 до истечения cooldown
+ * half-open - cooldown истек, endpoint получает один пробный запрос
+ */
+export class RPCEndpointPool {
+  readonly chainId: number
+  private readonly endpoints = new Map<string, EndpointStats>()
+  private readonly failureThreshold: number
+  private readonly baseCooldown: number
+  private readonly maxCooldown: number
+  private readonly LATENCY_SMOOTHING = 0.3 // Вес нового замера в скользящем среднем
+
+  constructor (chainId: number, rpcUrls: string[], options: RPCPoolOptions = {}) {
+    this.chainId = chainId
+    this.failureThreshold = options.failureThreshold ?? 3
+    this.baseCooldown = options.baseCooldown ?? 30 * 1000
+    this.maxCooldown = options.maxCooldown ?? 10 * 60 * 1000
+
+    for (const rpcUrl of rpcUrls) {
+      this.endpoints.set(rpcUrl, {
+        rpcUrl,
+        state: 'closed',
+        successes: 0,
+        failures: 0,
+        rateLimited: 0,
+        serverErrors: 0,
+        consecutiveFailures: 0,
+        avgLatency: 1000,
+        inFlight: 0,
+        openedAt: null,
+        cooldown: this.baseCooldown
+      })
+    }
+  }
+
+  /**
+   * Задать начальную задержку endpoint (по результатам проверки здоровья)
+   */
+  seedLatency (rpcUrl: string, latency: number): void {
+    const endpoint = this.endpoints.get(rpcUrl)
+    if (endpoint) {
+      endpoint.avgLatency = latency
+    }
+  }
+
+  /**
+   * Принудительно открыть circuit (например, endpoint обслуживает другую сеть)
+   */
+  disable (rpcUrl: string, reason: string, cooldown: number = this.maxCooldown): void {
+    const endpoint = this.endpoints.get(rpcUrl)
+    if (endpoint) {
+      this.open(endpoint, cooldown)
+      endpoint.lastError = reason
+    }
+  }
+
+  /**
+   * Выбрать endpoint для следующего запроса
+   *
+   * Нагрузка распределяется случайно с весом, пропорциональным доле успешных
+   * запросов и обратно пропорциональным задержке и числу активных запросов.
+   */
+  acquire (exclude: Set<string> = new Set()): string | null {
+    const now = Date.now()
+    const candidates: Array<{ endpoint: EndpointStats; weight: number }> = []
+
+    for (const endpoint of this.endpoints.values()) {
+      if (exclude.has(endpoint.rpcUrl)) continue
+
+      if (endpoint.state === 'open' && endpoint.openedAt !== null && now - endpoint.openedAt >= endpoint.cooldown) {
+        endpoint.state = 'half-open'
+      }
+
+      if (endpoint.state === 'open') continue
+      // В half-open пропускаем только один пробный запрос
+      if (endpoint.state === 'half-open' && endpoint.inFlight > 0) continue
+
+      const successRate = (endpoint.successes + 1) / (endpoint.successes + endpoint.failures + 2)
+      const load = 1 + endpoint.inFlight
+      const weight = successRate * successRate / (Math.max(endpoint.avgLatency, 10) * load)
+      candidates.push({ endpoint, weight: endpoint.state === 'half-open' ? weight / 2 : weight })
+    }
+
+    if (candidates.length === 0) {
+      return null
+    }
+
+    const totalWeight = candidates.reduce((sum, candidate) => sum + candidate.weight, 0)
+    let point = Math.random() * totalWeight
+    let selected = candidates[candidates.length - 1]!.endpoint
+
+    for (const candidate of candidates) {
+      point -= candidate.weight
+      if (point <= 0) {
+        selected = candidate.endpoint
+        break
+      }
+    }
+
+    selected.inFlight++
+    return selected.rpcUrl
+  }
+
+  /**
+   * Сообщить об успешном запросе
+   */
+  reportSuccess (rpcUrl: string, latency: number): void {
+    const endpoint = this.endpoints.get(rpcUrl)
+    if (!endpoint) return
+
+    endpoint.inFlight = Math.max(0, endpoint.inFlight - 1)
+    endpoint.successes++
+    endpoint.consecutiveFailures = 0
+    endpoint.avgLatency = endpoint.avgLatency * (1 - this.LATENCY_SMOOTHING) + latency * this.LATENCY_SMOOTHING
+
+    if (endpoint.state !== 'closed') {
+      endpoint.state = 'closed'
+      endpoint.openedAt = null
+      endpoint.cooldown = this.baseCooldown
+    }
+  }
+
+  /**
+   * Сообщить о неудачном запросе
+   */
+  reportFailure (rpcUrl: string, errorClass: RPCErrorClass, message: string, cooldown?: number): void {
+    const endpoint = this.endpoints.get(rpcUrl)
+    if (!endpoint) return
+
+    endpoint.inFlight = Math.max(0, endpoint.inFlight - 1)
+    endpoint.failures++
+    endpoint.consecutiveFailures++
+    endpoint.lastError = message
+
+    if (errorClass === 'rate_limited') {
+      endpoint.rateLimited++
+    } else if (errorClass === 'server_error') {
+      endpoint.serverErrors++
+    }
+
+    if (endpoint.state === 'half-open') {
+      // Пробный запрос не прошел - снова открываем с удвоенным cooldown
+      this.open(endpoint, cooldown ?? Math.min(endpoint.cooldown * 2, this.maxCooldown))
+    } else if (errorClass === 'rate_limited' || endpoint.consecutiveFailures >= this.failureThreshold) {
+      this.open(endpoint, cooldown ?? endpoint.cooldown)
+    }
+  }
+
+  /**
+   * Перевести endpoint в состояние open
+   */
+  private open (endpoint: EndpointStats, cooldown: number): void {
+    endpoint.state = 'open'
+    endpoint.openedAt = Date.now()
+    endpoint.cooldown = cooldown
+  }
+
+  /**
+   * Получить статистику всех endpoints
+   */
+  getStats (): EndpointStats[] {
+    return [...this.endpoints.values()].map(endpoint => ({ ...endpoint }))
+  }
+}
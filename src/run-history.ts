@@ -0,0 +1,164 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { randomBytes } from 'crypto'
+import type { BalanceCheckConfig, MultiWalletBalanceResult, NetworkStatus } from './balance-checker.js'
+import type { RPCErrorClass } from './rpc-errors.js'
+
+/**
+ * Каталог сохраненных запусков проверки
+ */
+export const RUN_HISTORY_DIR = path.join('cache', 'runs')
+
+/**
+ * Сеть кошелька, которую не удалось проверить полностью
+ */
+export interface RunFailure {
+  walletAddress: string
+  chainId: number
+  networkName: string
+  status: Exclude<NetworkStatus, 'ok'>
+  errorClass?: RPCErrorClass
+  errorMessage?: string
+}
+
+/**
+ * Сохраненный запуск проверки кошельков
+ */
+export interface StoredRun {
+  version: 1
+  runId: string
+  createdAt: number
+  retryOf?: string // Запуск, ошибки которого повторялись
+  config: BalanceCheckConfig
+  failures: RunFailure[]
+  results: MultiWalletBalanceResult
+}
+
+/**
+ * Краткое описание запуска для выбора
+ */
+export interface RunSummary {
+  runId: string
+  createdAt: number
+  retryOf?: string
+  walletCount: number
+  failureCount: number
+}
+
+/**
+ * Создать идентификатор запуска: время (UTC) и случайный суффикс
+ */
+export function createRunId (timestamp: number = Date.now()): string {
+  const time = new Date(timestamp).toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15)
+  return `${time}-${randomBytes(2).toString('hex')}`
+}
+
+/**
+ * Сериализовать в JSON с сохранением bigint ({ "$bigint": "123" })
+ */
+export function stringifyWithBigInt (value: unknown, space: number = 2): string {
+  return JSON.stringify(value, (_key, item) => typeof item === 'bigint' ? { $bigint: item.toString() } : item, space)
+}
+
+/**
+ * Разобрать JSON, записанный stringifyWithBigInt (bigint восстанавливаются)
+ */
+export function parseWithBigInt<T> (json: string): T {
+  return JSON.parse(json, (_key, item) =>
+    item !== null && typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length === 1 && typeof item.$bigint === 'string' && /^-?\d+$/.test(item.$bigint)
+      ? BigInt(item.$bigint)
+      : item
+  ) as T
+}
+
+/**
+ * Собрать сети кошельков со статусом, отличным от ok
+ */
+export function collectFailures (results: MultiWalletBalanceResult): RunFailure[] {
+  return results.wallets.flatMap(wallet => wallet.results.networks
+    .filter(network => network.status !== 'ok')
+    .map(network => ({
+      walletAddress: wallet.address,
+      chainId: network.chainId,
+      networkName: network.networkName,
+      status: network.status as RunFailure['status'],
+      ...(network.errorClass !== undefined && { errorClass: network.errorClass }),
+      ...(network.errorMessage !== undefined && { errorMessage: network.errorMessage })
+    })))
+}
+
+/**
+ * История запусков проверки
+ *
+ * Каждый запуск (результаты, настройки и список ошибок) сохраняется в
+ * cache/runs/<runId>.json, чтобы потом повторить только упавшие сети.
+ */
+export class RunHistory {
+  private readonly dir: string
+
+  constructor (dir: string = RUN_HISTORY_DIR) {
+    this.dir = dir
+  }
+
+  /**
+   * Путь к файлу запуска
+   */
+  private getRunPath (runId: string): string {
+    return path.join(this.dir, `${runId}.json`)
+  }
+
+  /**
+   * Сохранить запуск
+   */
+  save (run: StoredRun): string {
+    const filePath = this.getRunPath(run.runId)
+    fs.mkdirSync(this.dir, { recursive: true })
+    fs.writeFileSync(filePath, stringifyWithBigInt(run))
+    return filePath
+  }
+
+  /**
+   * Загрузить запуск
+   */
+  load (runId: string): StoredRun {
+    const filePath = this.getRunPath(runId)
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Запуск ${runId} не найден (${filePath})`)
+    }
+
+    const run = parseWithBigInt<StoredRun>(fs.readFileSync(filePath, 'utf8'))
+    if (run.version !== 1 || run.runId !== runId || !Array.isArray(run.failures) || !Array.isArray(run.results?.wallets)) {
+      throw new Error(`Файл запуска ${filePath} поврежден или имеет неизвестный формат`)
+    }
+    return run
+  }
+
+  /**
+   * Список сохраненных запусков (новые первыми)
+   *
+   * Поврежденные файлы пропускаются с предупреждением.
+   */
+  list (): RunSummary[] {
+    if (!fs.existsSync(this.dir)) {
+      return []
+    }
+
+    const summaries: RunSummary[] = []
+    for (const file of fs.readdirSync(this.dir).filter(name => name.endsWith('.json'))) {
+      try {
+        const run = this.load(path.basename(file, '.json'))
+        summaries.push({
+          runId: run.runId,
+          createdAt: run.createdAt,
+          ...(run.retryOf !== undefined && { retryOf: run.retryOf }),
+          walletCount: run.results.wallets.length,
+          failureCount: run.failures.length
+        })
+      } catch (error) {
+        console.warn(`⚠️ Пропущен файл запуска ${file}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      }
+    }
+
+    return summaries.sort((a, b) => b.createdAt - a.createdAt)
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Ограничения одного пакета вызовов (одного aggregate3)
+ */
+export interface ScanBudget {
+  maxCalls: number // Вызовов в пакете
+  maxGas: number // Оценка газа на пакет (RPC ограничивают газ eth_call, обычно 50M)
+}
+
+/**
+ * Ограничения пакета по умолчанию
+ */
+export const DEFAULT_SCAN_BUDGET: ScanBudget = {
+  maxCalls: 500,
+  maxGas: 30_000_000
+}
+
+/**
+ * Оценка газа на вызов getEthBalance(адрес) в Multicall3
+ */
+export const NATIVE_BALANCE_GAS = 10_000
+
+/**
+ * Оценка газа на вызов balanceOf(адрес) (с запасом на прокси-токены)
+ */
+export const BALANCE_OF_GAS = 30_000
+
+/**
+ * Вызов плана: баланс кошелька в токене (token - индекс токена, null - нативный баланс)
+ */
+export interface ScanCall {
+  wallet: number
+  token: number | null
+}
+
+/**
+ * Пакет вызовов, выполняемый одним запросом
+ */
+export type ScanBatch = ScanCall[]
+
+/**
+ * Объединить ограничения пакета с ограничениями по умолчанию
+ */
+export function resolveScanBudget (budget: Partial<ScanBudget> = {}): ScanBudget {
+  const maxCalls = budget.maxCalls ?? DEFAULT_SCAN_BUDGET.maxCalls
+  const maxGas = budget.maxGas ?? DEFAULT_SCAN_BUDGET.maxGas
+  if (!Number.isInteger(maxCalls) || maxCalls <= 0) {
+    throw new Error(`maxCalls должен быть положительным целым числом, получено ${maxCalls}`)
+  }
+  if (!Number.isFinite(maxGas) || maxGas < BALANCE_OF_GAS) {
+    throw new Error(`maxGas должен быть не меньше ${BALANCE_OF_GAS}, получено ${maxGas}`)
+  }
+  return { maxCalls, maxGas }
+}
+
+/**
+ * Составить план проверки балансов нескольких кошельков в сети
+ *
+ * Вызовы всех кошельков (нативный баланс через getEthBalance и balanceOf по
+ * каждому токену) укладываются подряд в пакеты, пока не исчерпан лимит
+ * вызовов или газа. Вызовы одного кошелька могут попасть в соседние пакеты.
+ */
+export function planWalletScan (walletCount: number, tokenCount: number, budget: ScanBudget = DEFAULT_SCAN_BUDGET): ScanBatch[] {
+  const batches: ScanBatch[] = []
+  let current: ScanBatch = []
+  let currentGas = 0
+
+  const add = (call: ScanCall, gas: number): void => {
+    if (current.length > 0 && (current.length >= budget.maxCalls || currentGas + gas > budget.maxGas)) {
+      batches.push(current)
+      current = []
+      currentGas = 0
+    }
+    current.push(call)
+    currentGas += gas
+  }
+
+  for (let wallet = 0; wallet < walletCount; wallet++) {
+    add({ wallet, token: null }, NATIVE_BALANCE_GAS)
+    for (let token = 0; token < tokenCount; token++) {
+      add({ wallet, token }, BALANCE_OF_GAS)
+    }
+  }
+
+  if (current.length > 0) {
+    batches.push(current)
+  }
+
+  return batches
+}
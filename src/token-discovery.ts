@@ -0,0 +1,323 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { toHex, pad, toEventSelector, Address } from 'viem'
+import { RPCManager } from './rpc-manager.js'
+import { classifyRPCError } from './rpc-errors.js'
+import type { TokenInfo } from './token-list-manager.js'
+import type { TokenMetadataLookup } from './token-metadata-resolver.js'
+
+/**
+ * Каталог состояния поиска токенов (по файлу на кошелек и сеть)
+ */
+export const TOKEN_DISCOVERY_DIR = path.join('cache', 'discovery')
+
+/**
+ * Топик события Transfer(address,address,uint256)
+ */
+const TRANSFER_TOPIC = toEventSelector('Transfer(address,address,uint256)')
+
+/**
+ * Настройки поиска токенов
+ */
+export interface TokenDiscoveryOptions {
+  initialLookbackBlocks?: bigint // Глубина первого сканирования (от последнего блока)
+  getLookbackBlocks?: (chainId: number) => number | undefined // Глубина для сети (вместо initialLookbackBlocks)
+  pageSize?: bigint // Начальный размер диапазона блоков в одном eth_getLogs
+  minPageSize?: bigint // Меньше этого диапазон не уменьшается
+}
+
+/**
+ * Результат поиска токенов кошелька в сети
+ *
+ * lookbackLimited - история сети начинается раньше scannedFromBlock, но эти
+ * блоки за пределами глубины поиска (ожидаемо, сведения для отчета).
+ * truncated - запрошенный диапазон просканирован не полностью из-за ошибки
+ * RPC (повторится при следующем запуске): переводы из него не найдены.
+ */
+export interface TokenDiscoveryResult {
+  tokens: TokenInfo[]
+  scannedFromBlock: bigint
+  lastScannedBlock: bigint
+  lookbackLimited: boolean
+  truncated: boolean
+  error?: string
+}
+
+/**
+ * Сохраненное состояние поиска для кошелька в сети
+ */
+interface DiscoveryState {
+  version: 1
+  chainId: number
+  wallet: string
+  lastScannedBlock: string // bigint в виде строки
+  firstScannedBlock?: string // Начало просканированной истории (нет в файлах старых версий)
+  tokens: TokenInfo[]
+  unresolved: string[] // Контракты без метаданных ERC-20 (повторная попытка при следующем запуске)
+}
+
+/**
+ * Результат сканирования диапазона блоков
+ */
+interface ScanResult {
+  contracts: Set<string>
+  lastScannedBlock: bigint
+  error?: string
+}
+
+/**
+ * Лог eth_getLogs (нужные поля)
+ */
+interface RawLog {
+  address: string
+  topics: string[]
+}
+
+/**
+ * Поиск токенов вне списков по событиям Transfer в адрес кошелька
+ *
+ * Логи запрашиваются постранично по диапазонам блоков. Если провайдер
+ * отказывает из-за слишком большого диапазона, страница уменьшается вдвое.
+ * Найденные контракты и последний просканированный блок сохраняются в
+ * cache/discovery, поэтому следующие запуски сканируют только новые блоки.
+ * Метаданные (symbol, decimals) читаются из контрактов; контракты, для
+ * которых их получить не удалось, запрашиваются повторно при следующем запуске.
+ */
+export class TokenDiscovery {
+  private readonly rpcManager: RPCManager
+  private readonly resolveMetadata: TokenMetadataLookup
+  private readonly stateDir: string
+  private readonly initialLookbackBlocks: bigint
+  private readonly getLookbackBlocks: (chainId: number) => number | undefined
+  private readonly pageSize: bigint
+  private readonly minPageSize: bigint
+
+  constructor (
+    rpcManager: RPCManager,
+    resolveMetadata: TokenMetadataLookup,
+    options: TokenDiscoveryOptions = {},
+    stateDir: string = TOKEN_DISCOVERY_DIR
+  ) {
+    this.rpcManager = rpcManager
+    this.resolveMetadata = resolveMetadata
+    this.stateDir = stateDir
+    this.initialLookbackBlocks = options.initialLookbackBlocks ?? 1_000_000n
+    this.getLookbackBlocks = options.getLookbackBlocks ?? (() => undefined)
+    this.pageSize = options.pageSize ?? 10_000n
+    this.minPageSize = options.minPageSize ?? 100n
+  }
+
+  /**
+   * Путь к файлу состояния
+   */
+  private getStatePath (chainId: number, walletAddress: string): string {
+    return path.join(this.stateDir, `${chainId}_${walletAddress.toLowerCase()}.json`)
+  }
+
+  /**
+   * Загрузить состояние (null - кошелек в сети еще не сканировался)
+   */
+  private loadState (chainId: number, walletAddress: string): DiscoveryState | null {
+    const filePath = this.getStatePath(chainId, walletAddress)
+    try {
+      if (fs.existsSync(filePath)) {
+        const state = JSON.parse(fs.readFileSync(filePath, 'utf8')) as DiscoveryState
+        if (state.version === 1 && Array.isArray(state.tokens) && /^\d+$/.test(state.lastScannedBlock) &&
+          (state.firstScannedBlock === undefined || /^\d+$/.test(state.firstScannedBlock))) {
+          return { ...state, unresolved: state.unresolved || [] }
+        }
+      }
+    } catch (error) {
+      console.warn(`Ошибка при загрузке состояния поиска токенов ${filePath}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+    return null
+  }
+
+  /**
+   * Сохранить состояние
+   */
+  private saveState (state: DiscoveryState): void {
+    const filePath = this.getStatePath(state.chainId, state.wallet)
+    try {
+      fs.mkdirSync(this.stateDir, { recursive: true })
+      fs.writeFileSync(filePath, JSON.stringify(state, null, 2))
+    } catch (error) {
+      console.warn(`Ошибка при сохранении состояния поиска токенов ${filePath}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+  }
+
+  /**
+   * Запросить логи Transfer в адрес кошелька за диапазон блоков
+   *
+   * Возвращает null, если провайдер отклонил диапазон (ошибка RPC, а не endpoint).
+   */
+  private async fetchTransferLogs (chainId: number, walletAddress: Address, fromBlock: bigint, toBlock: bigint): Promise<RawLog[] | null> {
+    return await this.rpcManager.execute(chainId, async (client) => {
+      try {
+        return await client.request({
+          method: 'eth_getLogs',
+          params: [{
+            fromBlock: toHex(fromBlock),
+            toBlock: toHex(toBlock),
+            topics: [TRANSFER_TOPIC, null, pad(walletAddress.toLowerCase() as Address, { size: 32 })]
+          }]
+        } as never) as RawLog[]
+      } catch (error) {
+        // "block range too large", "query returned more than 10000 results" и т.п.
+        if (classifyRPCError(error) === 'rpc_error') {
+          return null
+        }
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Просканировать блоки и вернуть адреса контрактов, отправлявших токены кошельку
+   *
+   * При ошибке сохраняется прогресс до последней успешной страницы.
+   */
+  private async scanBlocks (
+    chainId: number,
+    walletAddress: Address,
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<ScanResult> {
+    const contracts = new Set<string>()
+    let pageSize = this.pageSize
+    let cursor = fromBlock
+
+    while (cursor <= toBlock) {
+      const pageEnd = cursor + pageSize - 1n < toBlock ? cursor + pageSize - 1n : toBlock
+
+      let logs: RawLog[] | null
+      try {
+        logs = await this.fetchTransferLogs(chainId, walletAddress, cursor, pageEnd)
+      } catch (error) {
+        return { contracts, lastScannedBlock: cursor - 1n, error: error instanceof Error ? error.message : 'Неизвестная ошибка' }
+      }
+
+      if (logs === null) {
+        if (pageSize <= this.minPageSize) {
+          return { contracts, lastScannedBlock: cursor - 1n, error: `провайдер отклоняет даже диапазон в ${pageSize} блоков` }
+        }
+        pageSize = pageSize / 2n > this.minPageSize ? pageSize / 2n : this.minPageSize
+        continue
+      }
+
+      // У ERC-721 Transfer четыре топика (tokenId индексирован) - такие логи пропускаем
+      for (const log of logs) {
+        if (log.topics.length === 3) {
+          contracts.add(log.address.toLowerCase())
+        }
+      }
+
+      cursor = pageEnd + 1n
+    }
+
+    return { contracts, lastScannedBlock: toBlock }
+  }
+
+  /**
+   * Первый блок, с которого нужно искать переводы (глубина поиска для сети)
+   */
+  private getStartBlock (chainId: number, toBlock: bigint): bigint {
+    const configured = this.getLookbackBlocks(chainId)
+    const lookback = configured !== undefined ? BigInt(configured) : this.initialLookbackBlocks
+    return toBlock > lookback ? toBlock - lookback + 1n : 0n
+  }
+
+  /**
+   * Найти токены кошелька в сети по логам Transfer
+   *
+   * Возвращает все найденные за все запуски токены (с метаданными из
+   * контрактов) и просканированный диапазон блоков. Глубина поиска
+   * отсчитывается от snapshotBlock (блок снимка, по умолчанию последний),
+   * новые блоки сканируются до последнего блока сети. Если начало глубины
+   * раньше уже просканированной истории (глубину увеличили или снимок
+   * старый), более ранние блоки досканируются.
+   */
+  async discover (chainId: number, walletAddress: Address, snapshotBlock?: bigint): Promise<TokenDiscoveryResult> {
+    const toBlock = await this.rpcManager.getBlockNumber(chainId)
+    const startBlock = this.getStartBlock(chainId, snapshotBlock !== undefined && snapshotBlock < toBlock ? snapshotBlock : toBlock)
+    const state: DiscoveryState = this.loadState(chainId, walletAddress) || {
+      version: 1,
+      chainId,
+      wallet: walletAddress.toLowerCase(),
+      lastScannedBlock: (startBlock - 1n).toString(),
+      firstScannedBlock: startBlock.toString(),
+      tokens: [],
+      unresolved: []
+    }
+    // Состояния старых версий созданы с глубиной по умолчанию - считаем, что она покрыта
+    let firstScannedBlock = state.firstScannedBlock !== undefined ? BigInt(state.firstScannedBlock) : startBlock
+    const contracts = new Set<string>()
+    const errors: string[] = []
+    let backfillFailed = false
+
+    // Начало глубины раньше просканированной истории - досканируем более ранние блоки
+    if (startBlock < firstScannedBlock) {
+      const backfill = await this.scanBlocks(chainId, walletAddress, startBlock, firstScannedBlock - 1n)
+      backfill.contracts.forEach(address => contracts.add(address))
+      if (backfill.error) {
+        errors.push(`блоки ${startBlock}-${firstScannedBlock - 1n}: ${backfill.error}`)
+        backfillFailed = true
+      } else {
+        firstScannedBlock = startBlock
+      }
+    }
+
+    // Новых блоков может не быть - тогда только повторяем получение метаданных
+    const fromBlock = BigInt(state.lastScannedBlock) + 1n
+    const scan: ScanResult = fromBlock <= toBlock
+      ? await this.scanBlocks(chainId, walletAddress, fromBlock, toBlock)
+      : { contracts: new Set(), lastScannedBlock: BigInt(state.lastScannedBlock) }
+    scan.contracts.forEach(address => contracts.add(address))
+    if (scan.error) {
+      errors.push(`остановлен на блоке ${scan.lastScannedBlock}: ${scan.error}`)
+    }
+
+    const error = errors.length > 0 ? errors.join('; ') : undefined
+    if (error) {
+      console.warn(`⚠️ Поиск токенов в сети ${chainId}: ${error}`)
+    }
+
+    const known = new Set(state.tokens.map(token => token.address.toLowerCase()))
+    const newContracts = [...new Set([...state.unresolved, ...contracts])].filter(address => !known.has(address))
+    state.unresolved = []
+
+    if (newContracts.length > 0) {
+      const metadata = await this.resolveMetadata(chainId, newContracts)
+      for (const address of newContracts) {
+        const tokenMetadata = metadata.get(address)
+        if (!tokenMetadata) {
+          state.unresolved.push(address)
+          continue
+        }
+        state.tokens.push({
+          chainId,
+          address,
+          symbol: tokenMetadata.symbol,
+          name: tokenMetadata.name,
+          decimals: tokenMetadata.decimals,
+          priceUSD: '0',
+          coinKey: tokenMetadata.symbol,
+          source: 'discovery'
+        })
+      }
+    }
+
+    state.lastScannedBlock = scan.lastScannedBlock.toString()
+    state.firstScannedBlock = firstScannedBlock.toString()
+    this.saveState(state)
+
+    return {
+      tokens: state.tokens,
+      scannedFromBlock: firstScannedBlock,
+      lastScannedBlock: scan.lastScannedBlock,
+      lookbackLimited: firstScannedBlock > 0n,
+      truncated: backfillFailed || scan.lastScannedBlock < toBlock,
+      ...(error !== undefined && { error })
+    }
+  }
+}
@@ -0,0 +1,341 @@
+import * as fs from 'fs'
+import { BalanceResult } from './multicall3-service.js'
+
+/**
+ * Файл настроек фильтра токенов
+ */
+export const TOKEN_FILTER_FILE = 'token-filter.json'
+
+/**
+ * Причина, по которой токен скрыт из отчета и итогов
+ *
+ * denylist        - токен в списке deny
+ * url_in_name     - в названии или символе ссылка (типичный спам-airdrop)
+ * value_above_cap - стоимость токена в кошельке выше порога maxTokenUsdValue
+ *                   (проверка включается в настройках, ликвидность не проверяется)
+ * impersonation   - символ крупного токена (USDT, WETH...) на чужом адресе
+ *                   или с похожими символами кириллицы
+ * price_outlier   - непроверенный токен стоит в outlierRatio раз больше всего
+ *                   остального в сети (абсурдная цена у токена без ликвидности)
+ */
+export type TokenHiddenReason = 'denylist' | 'url_in_name' | 'value_above_cap' | 'impersonation' | 'price_outlier'
+
+/**
+ * Скрытый токен с причиной
+ */
+export interface HiddenTokenResult extends BalanceResult {
+  hiddenReason: TokenHiddenReason
+  hiddenDetails: string
+}
+
+/**
+ * Настройки фильтра (token-filter.json)
+ *
+ * Записи allow/deny: "chainId:address" для конкретной сети или просто "address" для всех сетей.
+ */
+export interface TokenFilterConfig {
+  allow?: string[]
+  deny?: string[]
+  maxTokenUsdValue?: number
+  outlierRatio?: number // Во сколько раз токен дороже остального в сети, чтобы считаться выбросом
+  outlierMinUsdValue?: number // Выбросом считается только токен дороже этой суммы
+  canonical?: Record<string, Record<string, string[]>> // chainId -> символ -> адреса оригинала
+  heuristics?: {
+    urlInName?: boolean
+    valueAboveCap?: boolean // По умолчанию выключена
+    impersonation?: boolean
+    priceOutlier?: boolean
+  }
+}
+
+/**
+ * Результат фильтрации балансов сети
+ */
+export interface TokenFilterResult {
+  visible: BalanceResult[]
+  hidden: HiddenTokenResult[]
+}
+
+/**
+ * Адреса оригинальных крупных токенов в популярных сетях
+ */
+const DEFAULT_CANONICAL_TOKENS: Record<string, Record<string, string[]>> = {
+  '1': {
+    USDT: ['0xdAC17F958D2ee523a2206206994597C13D831ec7'],
+    USDC: ['0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'],
+    DAI: ['0x6B175474E89094C44Da98b954EedeAC495271d0F'],
+    WETH: ['0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'],
+    WBTC: ['0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599']
+  },
+  '56': {
+    USDT: ['0x55d398326f99059fF775485246999027B3197955'],
+    USDC: ['0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d'],
+    WBNB: ['0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c']
+  },
+  '137': {
+    USDT: ['0xc2132D05D31c914a87C6611C10748AEb04B58e8F'],
+    USDC: ['0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174'],
+    WETH: ['0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619']
+  },
+  '42161': {
+    USDT: ['0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9'],
+    USDC: ['0xaf88d065e77c8cC2239327C5EDb3A432268e5831', '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8'],
+    WETH: ['0x82aF49447D8a07e3bd95BD0d56f35241523fBab1']
+  },
+  '10': {
+    USDT: ['0x94b008aA00579c1307B0EF2c499aD98a8ce58e58'],
+    USDC: ['0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', '0x7F5c764cBc14f9669B88837ca1490cCa17c31607'],
+    WETH: ['0x4200000000000000000000000000000000000006']
+  },
+  '8453': {
+    USDC: ['0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'],
+    WETH: ['0x4200000000000000000000000000000000000006']
+  }
+}
+
+/**
+ * Токены, которые всегда видны: их названия похожи на ссылки ("chainId:address")
+ *
+ * Записи allow из token-filter.json дополняют этот список.
+ */
+const DEFAULT_ALLOWED_TOKENS = [
+  '1:0x0bc529c00C6401aEF6D220BE8C6Ea1667F6Ad93e', // YFI (yearn.finance)
+  '1:0xA0b73E1Ff0B80914AB6fe0444E65848C4C34450b' // CRO (Crypto.com Coin)
+]
+
+/**
+ * Символы крупных токенов, которые чаще всего подделывают
+ */
+const MAJOR_SYMBOLS = new Set(['USDT', 'USDC', 'DAI', 'WETH', 'ETH', 'WBTC', 'BTC', 'BNB', 'WBNB', 'MATIC', 'POL', 'ARB', 'OP'])
+
+/**
+ * Кириллические и греческие символы, похожие на латинские
+ */
+const HOMOGLYPHS: Record<string, string> = {
+  А: 'A', В: 'B', Е: 'E', К: 'K', М: 'M', Н: 'H', О: 'O', Р: 'P', С: 'C', Т: 'T', Х: 'X', У: 'Y', Ѕ: 'S', І: 'I', Ј: 'J',
+  а: 'A', е: 'E', о: 'O', р: 'P', с: 'C', у: 'Y', х: 'X', ѕ: 'S', і: 'I', ј: 'J',
+  Α: 'A', Β: 'B', Ε: 'E', Ζ: 'Z', Η: 'H', Ι: 'I', Κ: 'K', Μ: 'M', Ν: 'N', Ο: 'O', Ρ: 'P', Τ: 'T', Υ: 'Y', Χ: 'X', ο: 'O'
+}
+
+/**
+ * Явные ссылки в названии токена
+ */
+const URL_PATTERN = /(https?:\/\/|www\.|t\.me\/)/i
+
+/**
+ * Название или символ целиком - домен (без пробелов), например "claim-usdt.com"
+ *
+ * Названия с пробелами ("Crypto.com Coin") не считаются ссылкой.
+ */
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.(com|io|org|net|xyz|app|finance|fi|site|top|claim|gift|info|vip|pro|co|cc|me|link|live|online|club|cash|money)(\/\S*)?$/i
+
+/**
+ * Порог стоимости одного токена по умолчанию, USD
+ */
+const DEFAULT_MAX_TOKEN_USD_VALUE = 1_000_000
+
+/**
+ * Выброс цены по умолчанию: токен дороже $10 000 и в 100 раз дороже остального в сети
+ */
+const DEFAULT_OUTLIER_RATIO = 100
+const DEFAULT_OUTLIER_MIN_USD_VALUE = 10_000
+
+/**
+ * Фильтр спам- и скам-токенов
+ *
+ * Порядок проверок: allowlist (токен всегда виден) -> denylist -> эвристики.
+ */
+export class TokenFilter {
+  private readonly allow: Set<string>
+  private readonly deny: Set<string>
+  private readonly maxTokenUsdValue: number
+  private readonly outlierRatio: number
+  private readonly outlierMinUsdValue: number
+  private readonly canonical: Record<string, Record<string, Set<string>>>
+  private readonly heuristics: Required<NonNullable<TokenFilterConfig['heuristics']>>
+
+  constructor (config: TokenFilterConfig = {}) {
+    this.allow = new Set([...DEFAULT_ALLOWED_TOKENS, ...(config.allow || [])].map(entry => entry.toLowerCase()))
+    this.deny = new Set((config.deny || []).map(entry => entry.toLowerCase()))
+    this.maxTokenUsdValue = config.maxTokenUsdValue ?? DEFAULT_MAX_TOKEN_USD_VALUE
+    this.outlierRatio = config.outlierRatio ?? DEFAULT_OUTLIER_RATIO
+    this.outlierMinUsdValue = config.outlierMinUsdValue ?? DEFAULT_OUTLIER_MIN_USD_VALUE
+    this.heuristics = {
+      urlInName: config.heuristics?.urlInName ?? true,
+      valueAboveCap: config.heuristics?.valueAboveCap ?? false,
+      impersonation: config.heuristics?.impersonation ?? true,
+      priceOutlier: config.heuristics?.priceOutlier ?? true
+    }
+
+    // Пользовательские адреса дополняют встроенные
+    this.canonical = {}
+    for (const source of [DEFAULT_CANONICAL_TOKENS, config.canonical || {}]) {
+      for (const [chainId, symbols] of Object.entries(source)) {
+        this.canonical[chainId] ??= {}
+        for (const [symbol, addresses] of Object.entries(symbols)) {
+          const known = this.canonical[chainId]![symbol.toUpperCase()] ?? new Set<string>()
+          addresses.forEach(address => known.add(address.toLowerCase()))
+          this.canonical[chainId]![symbol.toUpperCase()] = known
+        }
+      }
+    }
+  }
+
+  /**
+   * Загрузить настройки из token-filter.json (если файл есть)
+   */
+  static fromFile (filePath: string = TOKEN_FILTER_FILE): TokenFilter {
+    if (!fs.existsSync(filePath)) {
+      return new TokenFilter()
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as TokenFilterConfig
+      for (const field of ['allow', 'deny'] as const) {
+        if (parsed[field] !== undefined && (!Array.isArray(parsed[field]) || parsed[field]!.some(entry => typeof entry !== 'string'))) {
+          throw new Error(`${field} должен быть массивом строк`)
+        }
+      }
+      for (const field of ['maxTokenUsdValue', 'outlierRatio', 'outlierMinUsdValue'] as const) {
+        if (parsed[field] !== undefined && (typeof parsed[field] !== 'number' || parsed[field]! <= 0)) {
+          throw new Error(`${field} должен быть положительным числом`)
+        }
+      }
+
+      console.log(`🛡️ Загружен фильтр токенов из ${filePath}`)
+      return new TokenFilter(parsed)
+    } catch (error) {
+      throw new Error(`Ошибка в ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    }
+  }
+
+  /**
+   * Есть ли токен в списке (по "chainId:address" или по адресу для всех сетей)
+   */
+  private isListed (list: Set<string>, chainId: number, address: string): boolean {
+    const normalized = address.toLowerCase()
+    return list.has(`${chainId}:${normalized}`) || list.has(normalized)
+  }
+
+  /**
+   * Привести символ к латинице в верхнем регистре без лишних знаков
+   */
+  private normalizeSymbol (symbol: string): string {
+    return [...symbol].map(char => HOMOGLYPHS[char] ?? char).join('').toUpperCase().replace(/[^A-Z0-9]/g, '')
+  }
+
+  /**
+   * Похож ли текст на ссылку
+   */
+  private looksLikeUrl (text: string): boolean {
+    return URL_PATTERN.test(text) || DOMAIN_PATTERN.test(text.trim())
+  }
+
+  /**
+   * Проверить токен эвристиками, вернуть причину скрытия или null
+   */
+  private checkHeuristics (chainId: number, token: BalanceResult): Omit<HiddenTokenResult, keyof BalanceResult> | null {
+    if (this.heuristics.urlInName && (this.looksLikeUrl(token.name) || this.looksLikeUrl(token.symbol))) {
+      return { hiddenReason: 'url_in_name', hiddenDetails: `Ссылка в названии: ${token.name}` }
+    }
+
+    if (this.heuristics.impersonation) {
+      const normalized = this.normalizeSymbol(token.symbol)
+      if (MAJOR_SYMBOLS.has(normalized)) {
+        if (normalized !== token.symbol.toUpperCase().replace(/[^A-Z0-9]/g, '') || /[^\x20-\x7E]/.test(token.symbol)) {
+          return { hiddenReason: 'impersonation', hiddenDetails: `Символ ${token.symbol} имитирует ${normalized} похожими знаками` }
+        }
+
+        const known = this.canonical[chainId.toString()]?.[normalized]
+        if (known && !known.has(token.address.toLowerCase())) {
+          return { hiddenReason: 'impersonation', hiddenDetails: `${normalized} по неизвестному адресу (оригинал: ${[...known].join(', ')})` }
+        }
+      }
+    }
+
+    if (this.heuristics.valueAboveCap && token.usdValue > this.maxTokenUsdValue) {
+      return { hiddenReason: 'value_above_cap', hiddenDetails: `Стоимость $${token.usdValue.toFixed(2)} выше порога $${this.maxTokenUsdValue}` }
+    }
+
+    return null
+  }
+
+  /**
+   * Проверенный токен: его цене можно доверять без проверки на выброс
+   *
+   * Это токены из allowlist, оригиналы крупных токенов и токены, оцененные
+   * по контрактам (LP токены по резервам, ликвидный стейкинг по курсу).
+   */
+  private isVerified (chainId: number, token: BalanceResult): boolean {
+    const address = token.address.toLowerCase()
+    return this.isListed(this.allow, chainId, address) ||
+      Object.values(this.canonical[chainId.toString()] ?? {}).some(addresses => addresses.has(address)) ||
+      token.lpBreakdown !== undefined ||
+      token.conversion !== undefined
+  }
+
+  /**
+   * Найти токены с абсурдной ценой среди видимых
+   *
+   * Источники цен не сообщают ликвидность, поэтому цена без ликвидности
+   * распознается по результату: непроверенный токен дороже outlierMinUsdValue,
+   * который в outlierRatio раз дороже остального в сети. Остальное - нативный
+   * баланс, проверенные токены и уже принятые более дешевые токены: токены
+   * идут от дешевых к дорогим, поэтому несколько спам-токенов с абсурдными
+   * ценами не прикрывают друг друга.
+   */
+  private findPriceOutliers (chainId: number, visible: BalanceResult[], otherUsdValue: number): Map<BalanceResult, string> {
+    const outliers = new Map<BalanceResult, string>()
+    const unverified = visible.filter(token => !this.isVerified(chainId, token))
+    let base = otherUsdValue + visible.filter(token => this.isVerified(chainId, token)).reduce((sum, token) => sum + token.usdValue, 0)
+
+    for (const token of unverified.sort((a, b) => a.usdValue - b.usdValue)) {
+      if (token.usdValue >= this.outlierMinUsdValue && token.usdValue > base * this.outlierRatio) {
+        outliers.set(token, `Стоимость $${token.usdValue.toFixed(2)} (цена $${token.priceUSD}) больше остального в сети ($${base.toFixed(2)}) более чем в ${this.outlierRatio} раз`)
+      } else {
+        base += token.usdValue
+      }
+    }
+    return outliers
+  }
+
+  /**
+   * Разделить балансы сети на видимые и скрытые
+   *
+   * otherUsdValue - стоимость остального в сети (нативный баланс), с которой
+   * сравниваются токены при проверке на выброс цены.
+   */
+  apply (chainId: number, tokens: BalanceResult[], otherUsdValue: number = 0): TokenFilterResult {
+    const visible: BalanceResult[] = []
+    const hidden: HiddenTokenResult[] = []
+
+    for (const token of tokens) {
+      if (this.isListed(this.allow, chainId, token.address)) {
+        visible.push(token)
+        continue
+      }
+
+      if (this.isListed(this.deny, chainId, token.address)) {
+        hidden.push({ ...token, hiddenReason: 'denylist', hiddenDetails: 'Токен в списке deny' })
+        continue
+      }
+
+      const reason = this.checkHeuristics(chainId, token)
+      if (reason) {
+        hidden.push({ ...token, ...reason })
+      } else {
+        visible.push(token)
+      }
+    }
+
+    if (this.heuristics.priceOutlier) {
+      const outliers = this.findPriceOutliers(chainId, visible, otherUsdValue)
+      for (const [token, details] of outliers) {
+        hidden.push({ ...token, hiddenReason: 'price_outlier', hiddenDetails: details })
+      }
+      return { visible: visible.filter(token => !outliers.has(token)), hidden }
+    }
+
+    return { visible, hidden }
+  }
+}
@@ -1,8 +1,10 @@
 import * as fs from 'fs'
 import * as path from 'path'
+import type { FetchFn } from './proxy-transport.js'
+import { TokenSource, SOURCE_CACHE_PREFIX, loadTokenSources, mergeTokenLists } from './token-sources.js'
 
 /**
- * Информация о токене из Li.quest API
+ * Информация о токене из списков токенов (Li.quest API, tokenlists.org, custom-tokens.json)
  */
 export interface TokenInfo {
   chainId: number
@@ -13,16 +15,8 @@ export interface TokenInfo {
   priceUSD: string
   coinKey: string
   logoURI?: string
-}
-
-/**
- * Ответ от Li.quest API
- */
-interface LiQuestResponse {
-  tokens: {
-    [chainId: string]: TokenInfo[]
-  }
-  extended: boolean
+  source?: string // Источник, из которого взята запись
+  priceSource?: string // Источник цены, если она взята из другого списка
 }
 
 /**
@@ -32,6 +26,46 @@ interface CachedData {
   data: TokenInfo[]
   timestamp: number
   ttl: number
+  status?: TokenListStatus // Для memory cache: откуда взят список
+  updatedAt?: number | null // Для memory cache: когда список (и цены) получены из источников
+}
+
+/**
+ * Файл снимка списков токенов в каталоге запуска
+ *
+ * В репозиторий не входит: его создает экспорт снимка (или файл переносят
+ * с другой машины). Используется, когда нет ни источников, ни кэша.
+ */
+export const FALLBACK_TOKEN_SNAPSHOT_FILE = 'tokens-snapshot.json'
+
+/**
+ * Состояние списка токенов сети
+ *
+ * fresh       - список загружен из источников или из актуального кэша
+ * stale       - обновить не удалось (или офлайн режим), используется устаревший кэш
+ * snapshot    - используется снимок списков токенов
+ * unavailable - списка нет, проверяется только нативный баланс
+ */
+export type TokenListStatus = 'fresh' | 'stale' | 'snapshot' | 'unavailable'
+
+/**
+ * Список токенов сети с его состоянием
+ */
+export interface TokenListResult {
+  tokens: TokenInfo[]
+  status: TokenListStatus
+  updatedAt: number | null // Когда список и цены в нем получены из источников
+}
+
+/**
+ * Снимок списков токенов (экспорт/импорт, офлайн режим)
+ */
+export interface TokenSnapshot {
+  version: 1
+  createdAt: number
+  tokens: {
+    [chainId: string]: TokenInfo[]
+  }
 }
 
 /**
@@ -42,11 +76,35 @@ export class TokenListManager {
   private readonly CACHE_DURATION = 30 * 60 * 1000 // 30 минут
   private readonly CACHE_DIR = 'cache'
   private readonly CACHE_FILE_PREFIX = 'tokens_'
-
-  constructor () {
+  private readonly STALE_RETRY_INTERVAL = 5 * 60 * 1000 // Повторная попытка обновления после ошибки
+  private readonly sources: TokenSource[]
+  private offline: boolean
+  private fallbackSnapshot: TokenSnapshot | null | undefined
+  private inFlightRefresh: Promise<Map<number, TokenInfo[]>> | null = null
+  private lastRefreshError: { message: string; at: number } | null = null
+
+  constructor (fetchFn: FetchFn = fetch, sources: TokenSource[] = loadTokenSources(fetchFn), offline: boolean = false) {
+    this.sources = sources
+    this.offline = offline
     this.ensureCacheDir()
   }
 
+  /**
+   * Включить/выключить офлайн режим: списки токенов берутся только
+   * из кэша и снимка, сеть не используется
+   */
+  setOfflineMode (offline: boolean): void {
+    this.offline = offline
+    this.memoryCache.clear()
+  }
+
+  /**
+   * Включен ли офлайн режим
+   */
+  isOfflineMode (): boolean {
+    return this.offline
+  }
+
   /**
    * Создать директорию кэша если не существует
    */
@@ -72,8 +130,11 @@ export class TokenListManager {
 
   /**
    * Загрузить данные из файлового кэша
+   *
+   * Устаревший файл не удаляется: он нужен как запасной вариант,
+   * если источники токенов недоступны.
    */
-  private loadFromFileCache (chainId: number): TokenInfo[] | null {
+  private loadFromFileCache (chainId: number): CachedData | null {
     try {
       const cachePath = this.getCacheFilePath(chainId)
       if (!fs.existsSync(cachePath)) {
@@ -81,15 +142,7 @@ export class TokenListManager {
       }
 
       const fileContent = fs.readFileSync(cachePath, 'utf8')
-      const cached: CachedData = JSON.parse(fileContent)
-
-      if (this.isCacheValid(cached)) {
-        return cached.data
-      }
-
-      // Удаляем устаревший файл
-      fs.unlinkSync(cachePath)
-      return null
+      return JSON.parse(fileContent) as CachedData
     } catch (error) {
       console.warn(`Ошибка при загрузке файлового кэша для сети ${chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
       return null
@@ -99,12 +152,12 @@ export class TokenListManager {
   /**
    * Сохранить данные в файловый кэш
    */
-  private saveToFileCache (chainId: number, data: TokenInfo[]): void {
+  private saveToFileCache (chainId: number, data: TokenInfo[], timestamp: number = Date.now()): void {
     try {
       const cachePath = this.getCacheFilePath(chainId)
       const cached: CachedData = {
         data,
-        timestamp: Date.now(),
+        timestamp,
         ttl: this.CACHE_DURATION
       }
 
@@ -115,69 +168,261 @@ export class TokenListManager {
   }
 
   /**
-   * Загрузить токены с Li.quest API
+   * Загрузить токены из всех источников и объединить их по приоритету
+   *
+   * Недоступный источник пропускается, ошибка - только если не ответил ни один.
    */
-  private async fetchFromAPI (): Promise<LiQuestResponse> {
-    try {
-      const response = await fetch('https://li.quest/v1/tokens')
+  private async fetchFromSources (): Promise<Map<number, TokenInfo[]>> {
+    const settled = await Promise.allSettled(this.sources.map(source => source.fetchTokens()))
+
+    const lists: Array<Map<number, TokenInfo[]>> = []
+    const errors: string[] = []
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        lists.push(result.value)
+      } else {
+        const message = result.reason instanceof Error ? result.reason.message : 'Неизвестная ошибка'
+        errors.push(message)
+        console.warn(`⚠️ Источник токенов ${this.sources[index]?.name} недоступен: ${message}`)
+      }
+    })
+
+    if (lists.length === 0) {
+      throw new Error(`Не удалось загрузить списки токенов: ${errors.join('; ')}`)
+    }
+
+    return mergeTokenLists(lists)
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  /**
+   * Обновить списки токенов всех сетей из источников
+   *
+   * Параллельные вызовы используют один запрос. Полученные списки сразу
+   * попадают в кэш всех сетей, поэтому остальные сети не скачивают их заново.
+   * После ошибки повторная попытка возможна через STALE_RETRY_INTERVAL.
+   */
+  private async refreshFromSources (): Promise<Map<number, TokenInfo[]>> {
+    if (!this.inFlightRefresh) {
+      if (this.lastRefreshError && Date.now() - this.lastRefreshError.at < this.STALE_RETRY_INTERVAL) {
+        throw new Error(this.lastRefreshError.message)
       }
 
-      const data: LiQuestResponse = await response.json()
+      this.inFlightRefresh = this.fetchFromSources()
+        .then(allTokens => {
+          this.lastRefreshError = null
+          this.populateCache(allTokens)
+          return allTokens
+        })
+        .catch((error: unknown) => {
+          this.lastRefreshError = { message: error instanceof Error ? error.message : 'Неизвестная ошибка', at: Date.now() }
+          throw error
+        })
+        .finally(() => {
+          this.inFlightRefresh = null
+        })
+    }
+    return await this.inFlightRefresh
+  }
+
+  /**
+   * Сохранить списки токенов всех сетей в memory и file cache
+   */
+  private populateCache (allTokens: Map<number, TokenInfo[]>): void {
+    const timestamp = Date.now()
+    for (const [chainId, tokens] of allTokens) {
+      this.memoryCache.set(`tokens_${chainId}`, { data: tokens, timestamp, ttl: this.CACHE_DURATION })
+      if (tokens.length > 0) {
+        this.saveToFileCache(chainId, tokens, timestamp)
+      }
+    }
+  }
 
-      return data
-    } catch (error) {
-      throw new Error(`Ошибка при загрузке токенов с Li.quest API: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  /**
+   * Загрузить снимок tokens-snapshot.json из каталога запуска, если он есть (один раз)
+   */
+  private getFallbackSnapshot (): TokenSnapshot | null {
+    if (this.fallbackSnapshot === undefined) {
+      this.fallbackSnapshot = null
+      if (fs.existsSync(FALLBACK_TOKEN_SNAPSHOT_FILE)) {
+        try {
+          this.fallbackSnapshot = this.readSnapshot(FALLBACK_TOKEN_SNAPSHOT_FILE)
+        } catch (error) {
+          console.warn(`⚠️ Не удалось загрузить ${FALLBACK_TOKEN_SNAPSHOT_FILE}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+        }
+      }
     }
+    return this.fallbackSnapshot
   }
 
   /**
-   * Получить токены для конкретной сети
+   * Найти запасной список токенов: устаревший кэш или снимок
    */
-  async getTokensForChain (chainId: number): Promise<TokenInfo[]> {
+  private getFallbackTokens (chainId: number, fileCached: CachedData | null): TokenListResult {
+    if (fileCached) {
+      return { tokens: fileCached.data, status: 'stale', updatedAt: fileCached.timestamp }
+    }
+
+    const snapshot = this.getFallbackSnapshot()
+    const snapshotTokens = snapshot?.tokens[chainId.toString()]
+    if (snapshot && snapshotTokens) {
+      return { tokens: snapshotTokens, status: 'snapshot', updatedAt: snapshot.createdAt }
+    }
+
+    return { tokens: [], status: 'unavailable', updatedAt: null }
+  }
+
+  /**
+   * Получить токены для сети вместе с состоянием списка
+   *
+   * Порядок: memory cache -> актуальный файловый кэш -> источники токенов.
+   * Если источники недоступны (или включен офлайн режим), используется
+   * устаревший файловый кэш, затем снимок tokens-snapshot.json. Метод
+   * не выбрасывает исключений: без списка возвращается status 'unavailable'.
+   */
+  async getTokensWithStatus (chainId: number): Promise<TokenListResult> {
     const cacheKey = `tokens_${chainId}`
 
     // 1. Проверяем memory cache
     const memoryCached = this.memoryCache.get(cacheKey)
     if (memoryCached && this.isCacheValid(memoryCached)) {
-      return memoryCached.data
+      return { tokens: memoryCached.data, status: memoryCached.status || 'fresh', updatedAt: memoryCached.updatedAt ?? memoryCached.timestamp }
     }
 
     // 2. Проверяем file cache
     const fileCached = this.loadFromFileCache(chainId)
-    if (fileCached) {
+    if (fileCached && this.isCacheValid(fileCached)) {
       // Сохраняем в memory cache
       this.memoryCache.set(cacheKey, {
-        data: fileCached,
+        data: fileCached.data,
         timestamp: Date.now(),
-        ttl: this.CACHE_DURATION
+        ttl: this.CACHE_DURATION,
+        updatedAt: fileCached.timestamp
       })
-      return fileCached
+      return { tokens: fileCached.data, status: 'fresh', updatedAt: fileCached.timestamp }
     }
 
-    // 3. Загружаем с API
-    const apiData = await this.fetchFromAPI()
-    const tokens = apiData.tokens[chainId.toString()] || []
+    // 3. В офлайн режиме сеть не используем
+    if (this.offline) {
+      const fallback = this.getFallbackTokens(chainId, fileCached)
+      this.memoryCache.set(cacheKey, { data: fallback.tokens, timestamp: Date.now(), ttl: this.CACHE_DURATION, status: fallback.status, updatedAt: fallback.updatedAt })
+      return fallback
+    }
 
-    if (tokens.length === 0) {
-      return []
+    // 4. Загружаем из источников (один общий запрос для всех сетей)
+    let tokens: TokenInfo[]
+    try {
+      const allTokens = await this.refreshFromSources()
+      tokens = allTokens.get(chainId) || []
+    } catch (error) {
+      const fallback = this.getFallbackTokens(chainId, fileCached)
+      console.warn(`⚠️ Списки токенов для сети ${chainId} недоступны (${error instanceof Error ? error.message : 'Неизвестная ошибка'}), используем: ${fallback.status}`)
+
+      // Повторим обновление не раньше чем через STALE_RETRY_INTERVAL
+      this.memoryCache.set(cacheKey, { data: fallback.tokens, timestamp: Date.now(), ttl: this.STALE_RETRY_INTERVAL, status: fallback.status, updatedAt: fallback.updatedAt })
+      return fallback
     }
 
-    // 4. Кэшируем данные
-    const cached: CachedData = {
-      data: tokens,
-      timestamp: Date.now(),
-      ttl: this.CACHE_DURATION
+    // Сети без токенов в источниках тоже кэшируем, чтобы не запрашивать списки повторно
+    if (tokens.length === 0) {
+      this.memoryCache.set(cacheKey, { data: [], timestamp: Date.now(), ttl: this.CACHE_DURATION })
     }
 
-    this.memoryCache.set(cacheKey, cached)
-    this.saveToFileCache(chainId, tokens)
+    return { tokens, status: 'fresh', updatedAt: this.memoryCache.get(cacheKey)?.timestamp ?? Date.now() }
+  }
 
+  /**
+   * Получить токены для конкретной сети
+   */
+  async getTokensForChain (chainId: number): Promise<TokenInfo[]> {
+    const { tokens } = await this.getTokensWithStatus(chainId)
     return tokens
   }
 
+  /**
+   * Прочитать и проверить файл снимка
+   */
+  private readSnapshot (filePath: string): TokenSnapshot {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    } catch (error) {
+      throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    }
+
+    const snapshot = parsed as Partial<TokenSnapshot>
+    if (snapshot?.version !== 1 || typeof snapshot.createdAt !== 'number' || !snapshot.tokens || typeof snapshot.tokens !== 'object') {
+      throw new Error(`Некорректный формат снимка ${filePath}: ожидаются поля version (1), createdAt и tokens`)
+    }
+
+    for (const [chainId, tokens] of Object.entries(snapshot.tokens)) {
+      if (!/^\d+$/.test(chainId) || !Array.isArray(tokens)) {
+        throw new Error(`Некорректный формат снимка ${filePath}: сеть "${chainId}"`)
+      }
+    }
+
+    return snapshot as TokenSnapshot
+  }
+
+  /**
+   * Экспортировать снимок списков токенов всех сетей в файл
+   *
+   * Данные загружаются из источников, а если они недоступны
+   * (или включен офлайн режим) - берутся из файлового кэша.
+   */
+  async exportSnapshot (filePath: string): Promise<{ chains: number; tokens: number }> {
+    let allTokens: Map<number, TokenInfo[]> | null = null
+
+    if (!this.offline) {
+      try {
+        allTokens = await this.refreshFromSources()
+      } catch (error) {
+        console.warn('⚠️ Источники токенов недоступны, экспортируем файловый кэш:', error instanceof Error ? error.message : 'Неизвестная ошибка')
+      }
+    }
+
+    if (!allTokens) {
+      allTokens = new Map()
+      for (const file of fs.readdirSync(this.CACHE_DIR)) {
+        const match = file.match(new RegExp(`^${this.CACHE_FILE_PREFIX}(\\d+)\\.json$`))
+        if (!match) continue
+        const cached = this.loadFromFileCache(parseInt(match[1]!))
+        if (cached) {
+          allTokens.set(parseInt(match[1]!), cached.data)
+        }
+      }
+    }
+
+    const snapshot: TokenSnapshot = {
+      version: 1,
+      createdAt: Date.now(),
+      tokens: Object.fromEntries([...allTokens.entries()].map(([chainId, tokens]) => [chainId.toString(), tokens]))
+    }
+
+    fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2))
+
+    const tokenCount = [...allTokens.values()].reduce((sum, tokens) => sum + tokens.length, 0)
+    return { chains: allTokens.size, tokens: tokenCount }
+  }
+
+  /**
+   * Импортировать снимок списков токенов в файловый кэш
+   *
+   * Время кэша берется из даты снимка, поэтому старый снимок будет
+   * обновлен из источников при первой возможности.
+   */
+  importSnapshot (filePath: string): { chains: number; tokens: number; createdAt: number } {
+    const snapshot = this.readSnapshot(filePath)
+
+    let tokenCount = 0
+    for (const [chainId, tokens] of Object.entries(snapshot.tokens)) {
+      this.saveToFileCache(parseInt(chainId), tokens, snapshot.createdAt)
+      tokenCount += tokens.length
+    }
+
+    this.memoryCache.clear()
+    return { chains: Object.keys(snapshot.tokens).length, tokens: tokenCount, createdAt: snapshot.createdAt }
+  }
+
   /**
    * Получить токены для нескольких сетей
    */
@@ -218,17 +463,24 @@ export class TokenListManager {
     return tokens.find(token => token.address.toLowerCase() === address.toLowerCase()) || null
   }
 
+  /**
+   * Очистить только memory cache (файловый кэш остается для следующих запусков)
+   */
+  clearMemoryCache (): void {
+    this.memoryCache.clear()
+  }
+
   /**
    * Очистить кэш
    */
   clearCache (): void {
     this.memoryCache.clear()
 
-    // Удаляем файлы кэша
+    // Удаляем файлы кэша (списки по сетям и сохраненные ответы источников)
     try {
       const files = fs.readdirSync(this.CACHE_DIR)
       for (const file of files) {
-        if (file.startsWith(this.CACHE_FILE_PREFIX)) {
+        if (file.startsWith(this.CACHE_FILE_PREFIX) || file.startsWith(SOURCE_CACHE_PREFIX)) {
           fs.unlinkSync(path.join(this.CACHE_DIR, file))
         }
       }
@@ -261,9 +513,9 @@ export class TokenListManager {
    */
   async getSupportedNetworks (): Promise<Array<{ chainId: number; tokenCount: number }>> {
     try {
-      const apiData = await this.fetchFromAPI()
-      return Object.entries(apiData.tokens).map(([chainId, tokens]) => ({
-        chainId: parseInt(chainId),
+      const allTokens = await this.refreshFromSources()
+      return [...allTokens.entries()].map(([chainId, tokens]) => ({
+        chainId,
         tokenCount: tokens.length
       }))
     } catch (error) {
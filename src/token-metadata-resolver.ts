@@ -0,0 +1,198 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { encodeFunctionData, decodeFunctionResult, hexToString, trim, Address } from 'viem'
+import { Multicall3Service, Call3, MulticallResult, ERC20_ABI } from './multicall3-service.js'
+
+/**
+ * Файл постоянного кэша метаданных токенов
+ */
+export const TOKEN_METADATA_CACHE_FILE = path.join('cache', 'token_metadata.json')
+
+/**
+ * Метаданные ERC-20 токена, прочитанные из контракта
+ */
+export interface TokenMetadata {
+  symbol: string
+  name: string
+  decimals: number
+}
+
+/**
+ * Функция получения метаданных токенов сети (ключи результата - адреса в нижнем регистре)
+ */
+export type TokenMetadataLookup = (chainId: number, addresses: string[]) => Promise<Map<string, TokenMetadata>>
+
+/**
+ * Получение метаданных токенов (decimals, symbol, name) из контрактов
+ *
+ * Вызовы идут через Multicall3Service.executeCalls, поэтому работают и в
+ * сетях без Multicall3. Поддерживаются токены, которые возвращают symbol/name
+ * как bytes32 (MKR, SAI и др.). Успешные результаты сохраняются в
+ * cache/token_metadata.json и больше не запрашиваются.
+ */
+export class TokenMetadataResolver {
+  private readonly multicallService: Multicall3Service
+  private readonly cacheFile: string
+  private readonly TOKENS_PER_BATCH = 50 // 3 вызова на токен
+  private cache: Record<string, TokenMetadata> | null = null
+  private unresolved = new Set<string>() // Адреса без метаданных (не ERC-20) в текущем запуске
+
+  constructor (multicallService: Multicall3Service, cacheFile: string = TOKEN_METADATA_CACHE_FILE) {
+    this.multicallService = multicallService
+    this.cacheFile = cacheFile
+  }
+
+  /**
+   * Ключ кэша токена
+   */
+  private getCacheKey (chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`
+  }
+
+  /**
+   * Загрузить кэш из файла (один раз)
+   */
+  private loadCache (): Record<string, TokenMetadata> {
+    if (this.cache) {
+      return this.cache
+    }
+
+    this.cache = {}
+    try {
+      if (fs.existsSync(this.cacheFile)) {
+        this.cache = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as Record<string, TokenMetadata>
+      }
+    } catch (error) {
+      console.warn(`Ошибка при загрузке кэша метаданных токенов ${this.cacheFile}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+    return this.cache
+  }
+
+  /**
+   * Сохранить кэш в файл
+   */
+  private saveCache (): void {
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true })
+      fs.writeFileSync(this.cacheFile, JSON.stringify(this.loadCache(), null, 2))
+    } catch (error) {
+      console.warn(`Ошибка при сохранении кэша метаданных токенов ${this.cacheFile}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+  }
+
+  /**
+   * Декодировать строковый результат symbol()/name()
+   *
+   * Сначала как string, затем как bytes32 (нестандартные токены).
+   */
+  private decodeString (result: MulticallResult | undefined, functionName: 'symbol' | 'name'): string | null {
+    if (!result?.success || result.returnData === '0x') {
+      return null
+    }
+
+    try {
+      const value = decodeFunctionResult({ abi: ERC20_ABI, functionName, data: result.returnData }) as string
+      return value.trim() || null
+    } catch {
+      // Не string - пробуем bytes32
+    }
+
+    if (result.returnData.length === 66) {
+      const value = hexToString(trim(result.returnData, { dir: 'right' })).replace(/\0/g, '').trim()
+      return value || null
+    }
+
+    return null
+  }
+
+  /**
+   * Декодировать результат decimals()
+   */
+  private decodeDecimals (result: MulticallResult | undefined): number | null {
+    if (!result?.success || result.returnData === '0x') {
+      return null
+    }
+
+    try {
+      const value = Number(decodeFunctionResult({ abi: ERC20_ABI, functionName: 'decimals', data: result.returnData }))
+      return Number.isInteger(value) && value >= 0 && value <= 255 ? value : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Прочитать метаданные пачки токенов из контрактов
+   */
+  private async fetchBatch (chainId: number, addresses: string[]): Promise<Map<string, TokenMetadata>> {
+    const calls: Call3[] = addresses.flatMap(address => (['decimals', 'symbol', 'name'] as const).map(functionName => ({
+      target: address as Address,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: ERC20_ABI, functionName })
+    })))
+
+    const results = await this.multicallService.executeCalls(chainId, calls)
+    const resolved = new Map<string, TokenMetadata>()
+
+    addresses.forEach((address, index) => {
+      const decimals = this.decodeDecimals(results[index * 3])
+      const symbol = this.decodeString(results[index * 3 + 1], 'symbol')
+      const name = this.decodeString(results[index * 3 + 2], 'name')
+
+      if (decimals === null || symbol === null) {
+        return
+      }
+
+      resolved.set(address.toLowerCase(), { symbol, name: name || symbol, decimals })
+    })
+
+    return resolved
+  }
+
+  /**
+   * Получить метаданные токенов сети
+   *
+   * Возвращает найденные метаданные (ключ - адрес в нижнем регистре).
+   * Адреса, для которых метаданные получить не удалось, в результат не попадают.
+   */
+  async resolve (chainId: number, addresses: string[]): Promise<Map<string, TokenMetadata>> {
+    const cache = this.loadCache()
+    const result = new Map<string, TokenMetadata>()
+    const missing: string[] = []
+
+    for (const address of new Set(addresses.map(address => address.toLowerCase()))) {
+      const key = this.getCacheKey(chainId, address)
+      const cached = cache[key]
+      if (cached) {
+        result.set(address, cached)
+      } else if (!this.unresolved.has(key)) {
+        missing.push(address)
+      }
+    }
+
+    if (missing.length === 0) {
+      return result
+    }
+
+    for (let i = 0; i < missing.length; i += this.TOKENS_PER_BATCH) {
+      const batch = missing.slice(i, i + this.TOKENS_PER_BATCH)
+      try {
+        const resolved = await this.fetchBatch(chainId, batch)
+        for (const address of batch) {
+          const metadata = resolved.get(address)
+          if (metadata) {
+            cache[this.getCacheKey(chainId, address)] = metadata
+            result.set(address, metadata)
+          } else {
+            this.unresolved.add(this.getCacheKey(chainId, address))
+          }
+        }
+      } catch (error) {
+        console.warn(`⚠️ Не удалось получить метаданные токенов в сети ${chainId}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+      }
+    }
+
+    this.saveCache()
+    return result
+  }
+}
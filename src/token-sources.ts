@@ -0,0 +1,510 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { isAddress } from 'viem'
+import type { FetchFn } from './proxy-transport.js'
+import type { TokenInfo } from './token-list-manager.js'
+import type { TokenMetadataLookup } from './token-metadata-resolver.js'
+
+/**
+ * Файл настройки источников списков токенов
+ */
+export const TOKEN_SOURCES_FILE = 'token-sources.json'
+
+/**
+ * Файл пользовательских токенов по умолчанию
+ */
+export const CUSTOM_TOKENS_FILE = 'custom-tokens.json'
+
+/**
+ * Префикс файлов кэша исходных ответов источников (лежат в cache/)
+ */
+export const SOURCE_CACHE_PREFIX = 'source_'
+
+/**
+ * Источник списка токенов
+ */
+export interface TokenSource {
+  readonly name: string
+  fetchTokens (): Promise<Map<number, TokenInfo[]>>
+}
+
+/**
+ * Описание источника в token-sources.json
+ *
+ * Порядок источников в файле задает приоритет: при совпадении (chainId, address)
+ * берется запись из источника, указанного раньше.
+ */
+export type TokenSourceConfig =
+  | { type: 'lifi'; name?: string }
+  | { type: 'tokenlist'; url: string; name?: string }
+  | { type: 'custom'; path?: string; name?: string }
+
+/**
+ * Формат файла token-sources.json
+ */
+export interface TokenSourcesFile {
+  sources: TokenSourceConfig[]
+}
+
+/**
+ * Ответ от Li.quest API
+ */
+interface LiQuestResponse {
+  tokens: {
+    [chainId: string]: TokenInfo[]
+  }
+  extended: boolean
+}
+
+/**
+ * Сохраненный ответ источника вместе с валидаторами для условных запросов
+ */
+interface CachedSourcePayload {
+  url: string
+  etag?: string
+  lastModified?: string
+  fetchedAt: number
+  payload: unknown
+}
+
+/**
+ * Токен в формате tokenlists.org (https://tokenlists.org)
+ */
+interface TokenListEntry {
+  chainId: number
+  address: string
+  symbol: string
+  name: string
+  decimals: number
+  logoURI?: string
+}
+
+/**
+ * Адреса, которыми списки обозначают нативный токен сети
+ */
+export const NATIVE_TOKEN_ADDRESSES = new Set([
+  '0x0000000000000000000000000000000000000000',
+  '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee'
+])
+
+/**
+ * Проверить запись токена, вернуть описание ошибки или null
+ *
+ * С requireMetadata = false symbol и decimals можно не указывать
+ * (они будут получены из контракта), но если указаны - проверяются.
+ */
+function validateTokenEntry (entry: Partial<TokenListEntry>, requireMetadata: boolean = true): string | null {
+  if (typeof entry.chainId !== 'number' || !Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+    return 'некорректный chainId'
+  }
+  if (typeof entry.address !== 'string' || !isAddress(entry.address, { strict: false })) {
+    return `некорректный адрес "${entry.address}"`
+  }
+  if ((requireMetadata || entry.symbol !== undefined) && (typeof entry.symbol !== 'string' || !entry.symbol)) {
+    return 'отсутствует symbol'
+  }
+  if ((requireMetadata || entry.decimals !== undefined) &&
+    (typeof entry.decimals !== 'number' || !Number.isInteger(entry.decimals) || entry.decimals < 0 || entry.decimals > 255)) {
+    return 'decimals должен быть целым числом от 0 до 255'
+  }
+  return null
+}
+
+/**
+ * Преобразовать запись списка в TokenInfo
+ */
+function toTokenInfo (entry: TokenListEntry & Partial<TokenInfo>, source: string): TokenInfo {
+  return {
+    chainId: entry.chainId,
+    address: entry.address,
+    symbol: entry.symbol,
+    name: entry.name || entry.symbol,
+    decimals: entry.decimals,
+    priceUSD: entry.priceUSD || '0',
+    coinKey: entry.coinKey || entry.symbol,
+    ...(entry.logoURI && { logoURI: entry.logoURI }),
+    source
+  }
+}
+
+/**
+ * Путь к файлу кэша исходного ответа источника
+ */
+function getSourceCachePath (name: string): string {
+  return path.join('cache', `${SOURCE_CACHE_PREFIX}${name.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`)
+}
+
+/**
+ * Загрузить JSON условным запросом (If-None-Match / If-Modified-Since)
+ *
+ * Ответ и валидаторы (ETag, Last-Modified) сохраняются в файл. Если сервер
+ * отвечает 304, используется сохраненный ответ без повторного скачивания.
+ */
+async function fetchJsonConditional (fetchFn: FetchFn, url: string, cachePath: string): Promise<unknown> {
+  let cached: CachedSourcePayload | null = null
+  try {
+    if (fs.existsSync(cachePath)) {
+      cached = JSON.parse(fs.readFileSync(cachePath, 'utf8')) as CachedSourcePayload
+      if (cached.url !== url) {
+        cached = null
+      }
+    }
+  } catch {
+    cached = null
+  }
+
+  const headers: Record<string, string> = {}
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag
+  }
+  if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified
+  }
+
+  const response = await fetchFn(url, { headers })
+
+  if (response.status === 304 && cached) {
+    console.log(`📦 Список токенов ${url} не изменился, используем сохраненный ответ`)
+    return cached.payload
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const payload: unknown = await response.json()
+  const etag = response.headers.get('etag')
+  const lastModified = response.headers.get('last-modified')
+
+  // Без валидаторов условный запрос невозможен - ответ не сохраняем
+  if (etag || lastModified) {
+    try {
+      fs.mkdirSync(path.dirname(cachePath), { recursive: true })
+      const entry: CachedSourcePayload = {
+        url,
+        ...(etag && { etag }),
+        ...(lastModified && { lastModified }),
+        fetchedAt: Date.now(),
+        payload
+      }
+      fs.writeFileSync(cachePath, JSON.stringify(entry))
+    } catch (error) {
+      console.warn(`Ошибка при сохранении ответа ${url}:`, error instanceof Error ? error.message : 'Неизвестная ошибка')
+    }
+  }
+
+  return payload
+}
+
+/**
+ * Сгруппировать токены по сетям
+ */
+function groupByChain (tokens: TokenInfo[]): Map<number, TokenInfo[]> {
+  const result = new Map<number, TokenInfo[]>()
+  for (const token of tokens) {
+    const chainTokens = result.get(token.chainId) || []
+    chainTokens.push(token)
+    result.set(token.chainId, chainTokens)
+  }
+  return result
+}
+
+/**
+ * Источник токенов Li.quest API
+ *
+ * Ответ (несколько мегабайт на все сети) запрашивается условно
+ * и повторно скачивается только если список изменился.
+ */
+export class LiFiTokenSource implements TokenSource {
+  readonly name: string
+  private readonly fetchFn: FetchFn
+
+  constructor (fetchFn: FetchFn = fetch, name: string = 'lifi') {
+    this.fetchFn = fetchFn
+    this.name = name
+  }
+
+  async fetchTokens (): Promise<Map<number, TokenInfo[]>> {
+    try {
+      const data = await fetchJsonConditional(
+        this.fetchFn,
+        'https://li.quest/v1/tokens',
+        getSourceCachePath(this.name)
+      ) as LiQuestResponse
+
+      const result = new Map<number, TokenInfo[]>()
+      for (const [chainId, tokens] of Object.entries(data.tokens)) {
+        result.set(parseInt(chainId), tokens.map(token => ({ ...token, source: this.name })))
+      }
+      return result
+    } catch (error) {
+      throw new Error(`Ошибка при загрузке токенов с Li.quest API: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    }
+  }
+}
+
+/**
+ * Источник токенов в формате tokenlists.org (URL или локальный файл)
+ *
+ * Некорректные записи чужих списков пропускаются с предупреждением.
+ */
+export class TokenListSource implements TokenSource {
+  readonly name: string
+  private readonly location: string
+  private readonly fetchFn: FetchFn
+
+  constructor (location: string, fetchFn: FetchFn = fetch, name?: string) {
+    this.location = location
+    this.fetchFn = fetchFn
+    this.name = name || location
+  }
+
+  /**
+   * Прочитать JSON списка по URL или из файла
+   */
+  private async readList (): Promise<unknown> {
+    if (/^https?:\/\//i.test(this.location)) {
+      return await fetchJsonConditional(this.fetchFn, this.location, getSourceCachePath(this.name))
+    }
+
+    return JSON.parse(fs.readFileSync(this.location, 'utf8'))
+  }
+
+  async fetchTokens (): Promise<Map<number, TokenInfo[]>> {
+    let list: unknown
+    try {
+      list = await this.readList()
+    } catch (error) {
+      throw new Error(`Ошибка при загрузке списка токенов ${this.name}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    }
+
+    const entries = (list as { tokens?: unknown })?.tokens
+    if (!Array.isArray(entries)) {
+      throw new Error(`Некорректный список токенов ${this.name}: ожидается объект с массивом "tokens"`)
+    }
+
+    const tokens: TokenInfo[] = []
+    let skipped = 0
+    for (const entry of entries as Array<Partial<TokenListEntry>>) {
+      if (validateTokenEntry(entry)) {
+        skipped++
+        continue
+      }
+      tokens.push(toTokenInfo(entry as TokenListEntry, this.name))
+    }
+
+    if (skipped > 0) {
+      console.warn(`⚠️ ${this.name}: пропущено ${skipped} некорректных записей`)
+    }
+
+    return groupByChain(tokens)
+  }
+}
+
+/**
+ * Источник пользовательских токенов (custom-tokens.json)
+ *
+ * Формат как у tokenlists.org, дополнительно можно указать priceUSD и coinKey.
+ * Достаточно chainId и address: недостающие symbol, name и decimals
+ * читаются из контракта через resolveMetadata.
+ * Файл пишет пользователь, поэтому некорректные записи не пропускаются молча:
+ * ошибка содержит список всех проблем файла.
+ */
+export class CustomTokenSource implements TokenSource {
+  readonly name: string
+  private readonly filePath: string
+  private readonly resolveMetadata: TokenMetadataLookup | null
+
+  constructor (filePath: string = CUSTOM_TOKENS_FILE, name: string = 'custom', resolveMetadata: TokenMetadataLookup | null = null) {
+    this.filePath = filePath
+    this.name = name
+    this.resolveMetadata = resolveMetadata
+  }
+
+  /**
+   * Дополнить записи без symbol/decimals метаданными из контрактов
+   */
+  private async completeEntries (entries: Array<Partial<TokenListEntry & TokenInfo>>): Promise<TokenInfo[]> {
+    const complete = entries.filter(entry => entry.symbol !== undefined && entry.decimals !== undefined)
+    const incomplete = entries.filter(entry => entry.symbol === undefined || entry.decimals === undefined)
+    const tokens = complete.map(entry => toTokenInfo(entry as TokenListEntry & Partial<TokenInfo>, this.name))
+
+    if (incomplete.length === 0) {
+      return tokens
+    }
+
+    if (!this.resolveMetadata) {
+      console.warn(`⚠️ ${this.filePath}: ${incomplete.length} токенов без symbol/decimals пропущено (получение метаданных недоступно)`)
+      return tokens
+    }
+
+    const byChain = new Map<number, Array<Partial<TokenListEntry & TokenInfo>>>()
+    for (const entry of incomplete) {
+      byChain.set(entry.chainId!, [...(byChain.get(entry.chainId!) || []), entry])
+    }
+
+    for (const [chainId, chainEntries] of byChain) {
+      const metadata = await this.resolveMetadata(chainId, chainEntries.map(entry => entry.address!))
+
+      for (const entry of chainEntries) {
+        const resolved = metadata.get(entry.address!.toLowerCase())
+        if (!resolved) {
+          console.warn(`⚠️ ${this.filePath}: не удалось получить метаданные токена ${entry.address} в сети ${chainId}`)
+          continue
+        }
+        tokens.push(toTokenInfo({ ...resolved, ...entry } as TokenListEntry & Partial<TokenInfo>, this.name))
+      }
+    }
+
+    return tokens
+  }
+
+  async fetchTokens (): Promise<Map<number, TokenInfo[]>> {
+    if (!fs.existsSync(this.filePath)) {
+      return new Map()
+    }
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8'))
+    } catch (error) {
+      throw new Error(`Не удалось прочитать ${this.filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+    }
+
+    const entries = (parsed as { tokens?: unknown })?.tokens
+    if (!Array.isArray(entries)) {
+      throw new Error(`Некорректный формат ${this.filePath}: ожидается объект с массивом "tokens"`)
+    }
+
+    const errors: string[] = []
+    entries.forEach((entry: Partial<TokenListEntry & TokenInfo>, index) => {
+      const error = validateTokenEntry(entry, false)
+      if (error) {
+        errors.push(`токен #${index + 1}: ${error}`)
+      }
+    })
+
+    if (errors.length > 0) {
+      throw new Error(`Ошибки в ${this.filePath}:\n  - ${errors.join('\n  - ')}`)
+    }
+
+    const tokens = await this.completeEntries(entries)
+
+    return groupByChain(tokens)
+  }
+}
+
+/**
+ * Объединить списки токенов с дедупликацией по (chainId, address)
+ *
+ * Списки передаются в порядке приоритета: при совпадении остается запись
+ * из более приоритетного списка, недостающие цена и logoURI берутся из остальных.
+ * Нативный токен ставится первым в списке сети.
+ */
+export function mergeTokenLists (lists: Array<Map<number, TokenInfo[]>>): Map<number, TokenInfo[]> {
+  const merged = new Map<number, Map<string, TokenInfo>>()
+
+  for (const list of lists) {
+    for (const [chainId, tokens] of list) {
+      let chainTokens = merged.get(chainId)
+      if (!chainTokens) {
+        chainTokens = new Map()
+        merged.set(chainId, chainTokens)
+      }
+
+      for (const token of tokens) {
+        const key = token.address.toLowerCase()
+        const existing = chainTokens.get(key)
+
+        if (!existing) {
+          chainTokens.set(key, token)
+          continue
+        }
+
+        const hasPrice = parseFloat(existing.priceUSD) > 0
+        if ((!hasPrice && parseFloat(token.priceUSD) > 0) || (!existing.logoURI && token.logoURI)) {
+          chainTokens.set(key, {
+            ...existing,
+            ...(!hasPrice && parseFloat(token.priceUSD) > 0 && { priceUSD: token.priceUSD, coinKey: token.coinKey, priceSource: token.source }),
+            ...(!existing.logoURI && token.logoURI && { logoURI: token.logoURI })
+          })
+        }
+      }
+    }
+  }
+
+  const result = new Map<number, TokenInfo[]>()
+  for (const [chainId, chainTokens] of merged) {
+    const tokens = [...chainTokens.values()]
+    const native = tokens.filter(token => NATIVE_TOKEN_ADDRESSES.has(token.address.toLowerCase()))
+    const others = tokens.filter(token => !NATIVE_TOKEN_ADDRESSES.has(token.address.toLowerCase()))
+    result.set(chainId, [...native, ...others])
+  }
+
+  return result
+}
+
+/**
+ * Создать источник по описанию из token-sources.json
+ */
+function createTokenSource (config: TokenSourceConfig, fetchFn: FetchFn, resolveMetadata: TokenMetadataLookup | null): TokenSource {
+  switch (config.type) {
+  case 'lifi':
+    return new LiFiTokenSource(fetchFn, config.name)
+  case 'tokenlist':
+    return new TokenListSource(config.url, fetchFn, config.name)
+  case 'custom':
+    return new CustomTokenSource(config.path, config.name, resolveMetadata)
+  }
+}
+
+/**
+ * Загрузить источники токенов из token-sources.json
+ *
+ * Без файла используются custom-tokens.json (если есть) и Li.quest API.
+ * resolveMetadata нужен для пользовательских токенов, заданных только адресом.
+ */
+export function loadTokenSources (
+  fetchFn: FetchFn = fetch,
+  filePath: string = TOKEN_SOURCES_FILE,
+  resolveMetadata: TokenMetadataLookup | null = null
+): TokenSource[] {
+  if (!fs.existsSync(filePath)) {
+    return [new CustomTokenSource(CUSTOM_TOKENS_FILE, 'custom', resolveMetadata), new LiFiTokenSource(fetchFn)]
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+  } catch (error) {
+    throw new Error(`Не удалось прочитать ${filePath}: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`)
+  }
+
+  const sources = (parsed as TokenSourcesFile)?.sources
+  if (!Array.isArray(sources) || sources.length === 0) {
+    throw new Error(`Некорректный формат ${filePath}: ожидается объект с непустым массивом "sources"`)
+  }
+
+  const errors: string[] = []
+  sources.forEach((source, index) => {
+    const context = `источник #${index + 1}`
+    if (source?.type === 'tokenlist') {
+      if (typeof source.url !== 'string' || !source.url) {
+        errors.push(`${context}: для tokenlist обязательно поле url (URL или путь к файлу)`)
+      }
+    } else if (source?.type === 'custom') {
+      if (source.path !== undefined && typeof source.path !== 'string') {
+        errors.push(`${context}: path должен быть строкой`)
+      }
+    } else if (source?.type !== 'lifi') {
+      errors.push(`${context}: неизвестный тип "${(source as { type?: unknown })?.type}" (ожидается lifi, tokenlist или custom)`)
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Ошибки в ${filePath}:\n  - ${errors.join('\n  - ')}`)
+  }
+
+  console.log(`🪙 Загружены источники токенов из ${filePath}: ${sources.length}`)
+  return sources.map(source => createTokenSource(source, fetchFn, resolveMetadata))
+}
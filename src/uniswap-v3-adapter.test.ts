@@ -0,0 +1,283 @@
+import { test, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { AddressInfo } from 'net'
+import { decodeFunctionData, encodeFunctionResult, Address, Hex } from 'viem'
+import { RPCManager } from './rpc-manager.js'
+import { Multicall3Service } from './multicall3-service.js'
+import { TokenListManager } from './token-list-manager.js'
+import { FixedPriceProvider } from './price-providers.js'
+import { TokenMetadata } from './token-metadata-resolver.js'
+import { DefiPosition } from './positions.js'
+import {
+  UniswapV3Adapter,
+  UNISWAP_V3_POSITION_MANAGER_ABI,
+  UNISWAP_V3_FACTORY_ABI,
+  UNISWAP_V3_POOL_ABI
+} from './uniswap-v3-adapter.js'
+
+/**
+ * Проверка UniswapV3Adapter.getPositions на локальном JSON-RPC узле
+ *
+ * Узел отвечает на eth_call менеджера позиций, фабрики и пула, Multicall3
+ * в сети нет - вызовы идут пакетным JSON-RPC запросом, как в реальной сети
+ * без Multicall3. Ожидаемые значения считаются по формулам Uniswap V3
+ * независимо от адаптера: количества - в плавающей точке, комиссии - точно.
+ */
+
+const CHAIN_ID = 1
+const WALLET: Address = '0x1111111111111111111111111111111111111111'
+const MANAGER: Address = '0x00000000000000000000000000000000000000a1'
+const FACTORY: Address = '0x00000000000000000000000000000000000000a2'
+const POOL: Address = '0x00000000000000000000000000000000000000a3'
+const TOKEN0: Address = '0x00000000000000000000000000000000000000b0'
+const TOKEN1: Address = '0x00000000000000000000000000000000000000b1'
+const FEE = 3000
+
+const Q128 = 1n << 128n
+const LIQUIDITY = 1n << 60n
+// Единица роста комиссий: LIQUIDITY * FEE_UNIT / Q128 = 2^40 без округления
+const FEE_UNIT = Q128 >> 20n
+const FEE_PER_UNIT = LIQUIDITY >> 20n
+
+/**
+ * Состояние пула: цена 1 (тик 0), рост комиссий и значения "снаружи" тиков
+ */
+const POOL_TICK = 0
+const FEE_GROWTH_GLOBAL = [50n * FEE_UNIT, 80n * FEE_UNIT] as const
+const TICKS: Record<number, readonly [bigint, bigint]> = {
+  [-1200]: [10n * FEE_UNIT, 10n * FEE_UNIT],
+  [-600]: [20n * FEE_UNIT, 30n * FEE_UNIT],
+  600: [10n * FEE_UNIT, 20n * FEE_UNIT],
+  1200: [5n * FEE_UNIT, 10n * FEE_UNIT]
+}
+
+interface TestPosition {
+  tokenId: bigint
+  tickLower: number
+  tickUpper: number
+  feeGrowthInsideLast: readonly [bigint, bigint]
+  tokensOwed: readonly [bigint, bigint]
+}
+
+const IN_RANGE: TestPosition = { tokenId: 1n, tickLower: -600, tickUpper: 600, feeGrowthInsideLast: [0n, 0n], tokensOwed: [0n, 0n] }
+const BELOW_RANGE: TestPosition = { tokenId: 2n, tickLower: 600, tickUpper: 1200, feeGrowthInsideLast: [2n * FEE_UNIT, 0n], tokensOwed: [7n, 0n] }
+const ABOVE_RANGE: TestPosition = { tokenId: 3n, tickLower: -1200, tickUpper: -600, feeGrowthInsideLast: [0n, 0n], tokensOwed: [0n, 11n] }
+const POSITIONS = [IN_RANGE, BELOW_RANGE, ABOVE_RANGE]
+
+/**
+ * Ответ на eth_call по адресу и данным вызова
+ */
+function handleCall (to: string, data: Hex): Hex {
+  if (to === MANAGER) {
+    const call = decodeFunctionData({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, data })
+    switch (call.functionName) {
+    case 'balanceOf':
+      return encodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'balanceOf', result: BigInt(POSITIONS.length) })
+    case 'factory':
+      return encodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'factory', result: FACTORY })
+    case 'tokenOfOwnerByIndex':
+      return encodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'tokenOfOwnerByIndex', result: POSITIONS[Number(call.args[1])]!.tokenId })
+    case 'positions': {
+      const position = POSITIONS.find(item => item.tokenId === call.args[0])!
+      return encodeFunctionResult({
+        abi: UNISWAP_V3_POSITION_MANAGER_ABI,
+        functionName: 'positions',
+        result: [0n, '0x0000000000000000000000000000000000000000', TOKEN0, TOKEN1, FEE, position.tickLower, position.tickUpper, LIQUIDITY,
+          position.feeGrowthInsideLast[0], position.feeGrowthInsideLast[1], position.tokensOwed[0], position.tokensOwed[1]]
+      })
+    }
+    }
+  }
+
+  if (to === FACTORY) {
+    const call = decodeFunctionData({ abi: UNISWAP_V3_FACTORY_ABI, data })
+    if (call.functionName === 'getPool' && call.args[0].toLowerCase() === TOKEN0 && call.args[1].toLowerCase() === TOKEN1 && call.args[2] === FEE) {
+      return encodeFunctionResult({ abi: UNISWAP_V3_FACTORY_ABI, functionName: 'getPool', result: POOL })
+    }
+  }
+
+  if (to === POOL) {
+    const call = decodeFunctionData({ abi: UNISWAP_V3_POOL_ABI, data })
+    switch (call.functionName) {
+    case 'slot0':
+      return encodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'slot0', result: [1n << 96n, POOL_TICK, 0, 1, 1, 0, true] })
+    case 'feeGrowthGlobal0X128':
+      return encodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'feeGrowthGlobal0X128', result: FEE_GROWTH_GLOBAL[0] })
+    case 'feeGrowthGlobal1X128':
+      return encodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'feeGrowthGlobal1X128', result: FEE_GROWTH_GLOBAL[1] })
+    case 'ticks': {
+      const outside = TICKS[call.args[0]]!
+      return encodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'ticks', result: [LIQUIDITY, 0n, outside[0], outside[1], 0n, 0n, 0, true] })
+    }
+    }
+  }
+
+  throw new Error(`неожиданный вызов ${to} ${data.slice(0, 10)}`)
+}
+
+/**
+ * Ответ на один JSON-RPC запрос
+ */
+function handleRequest (request: { id: unknown; method: string; params: unknown[] }): object {
+  const reply = (result: unknown): object => ({ jsonrpc: '2.0', id: request.id, result })
+  switch (request.method) {
+  case 'eth_chainId':
+    return reply(`0x${CHAIN_ID.toString(16)}`)
+  case 'eth_blockNumber':
+    return reply('0x1000')
+  case 'eth_getCode':
+    return reply('0x') // Multicall3 не развернут
+  case 'eth_call': {
+    const { to, data } = request.params[0] as { to: string; data: Hex }
+    try {
+      return reply(handleCall(to.toLowerCase(), data))
+    } catch (error) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: 3, message: `execution reverted: ${error instanceof Error ? error.message : ''}` } }
+    }
+  }
+  default:
+    return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `method ${request.method} not found` } }
+  }
+}
+
+/**
+ * sqrt(1.0001^tick) в плавающей точке
+ */
+function sqrtPrice (tick: number): number {
+  return Math.sqrt(Math.pow(1.0001, tick))
+}
+
+/**
+ * Сравнить количество токенов с ожидаемым с относительной точностью 1e-9
+ */
+function assertAmount (actual: bigint, expected: number, label: string): void {
+  assert.ok(Math.abs(Number(actual) - expected) <= expected * 1e-9, `${label}: ${actual} вместо ~${expected}`)
+}
+
+/**
+ * Найти позицию по ID NFT
+ */
+function findPosition (positions: DefiPosition[], tokenId: bigint): DefiPosition {
+  const position = positions.find(item => item.name.endsWith(`#${tokenId}`))
+  assert.ok(position, `позиция #${tokenId} не найдена`)
+  return position
+}
+
+/**
+ * Несобранные комиссии позиции по токенам
+ */
+function getFees (position: DefiPosition): [bigint, bigint] {
+  const amountOf = (token: Address): bigint => position.fees.find(fee => fee.address.toLowerCase() === token)?.amount ?? 0n
+  return [amountOf(TOKEN0), amountOf(TOKEN1)]
+}
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'uniswap-v3-test-'))
+const initialDir = process.cwd()
+let server: http.Server
+let rpcManager: RPCManager
+let positions: DefiPosition[]
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      const payload = JSON.parse(body)
+      response.setHeader('Content-Type', 'application/json')
+      response.end(JSON.stringify(Array.isArray(payload) ? payload.map(handleRequest) : handleRequest(payload)))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  // Реестр сетей и кэши читаются из рабочего каталога - подменяем его временным
+  fs.writeFileSync(path.join(workDir, 'networks.json'), JSON.stringify({ networks: [{ chainId: CHAIN_ID, rpcUrls: [`http://127.0.0.1:${port}`] }] }))
+  process.chdir(workDir)
+
+  rpcManager = new RPCManager()
+  const prices = new FixedPriceProvider({ [TOKEN0]: 2, [TOKEN1]: 1 })
+  const multicallService = new Multicall3Service(rpcManager, new TokenListManager(fetch, [], true), prices)
+  const metadata = new Map<string, TokenMetadata>([
+    [TOKEN0, { symbol: 'AAA', name: 'Token A', decimals: 18 }],
+    [TOKEN1, { symbol: 'BBB', name: 'Token B', decimals: 18 }]
+  ])
+  const adapter = new UniswapV3Adapter(
+    multicallService,
+    async (_chainId, addresses) => new Map(addresses.flatMap(address => metadata.has(address) ? [[address, metadata.get(address)!] as const] : [])),
+    prices,
+    chainId => chainId === CHAIN_ID ? MANAGER : undefined
+  )
+
+  positions = await adapter.getPositions({ chainId: CHAIN_ID, walletAddress: WALLET, blockNumber: 0x1000n, tokenBalances: [] })
+})
+
+after(async () => {
+  await rpcManager?.closeAllConnections()
+  await new Promise(resolve => server?.close(resolve))
+  process.chdir(initialDir)
+  fs.rmSync(workDir, { recursive: true, force: true })
+})
+
+test('читает все позиции кошелька', () => {
+  assert.equal(positions.length, POSITIONS.length)
+  for (const position of positions) {
+    assert.equal(position.protocol, 'Uniswap V3')
+    assert.equal(position.details?.['Пул']?.toLowerCase(), POOL)
+  }
+})
+
+test('позиция в диапазоне: оба токена и комиссии по росту внутри диапазона', () => {
+  const position = findPosition(positions, IN_RANGE.tokenId)
+  const liquidity = Number(LIQUIDITY)
+
+  assert.equal(position.details?.['В диапазоне'], 'да')
+  assertAmount(position.assets[0]!.amount, liquidity * (1 / sqrtPrice(POOL_TICK) - 1 / sqrtPrice(IN_RANGE.tickUpper)), 'token0')
+  assertAmount(position.assets[1]!.amount, liquidity * (sqrtPrice(POOL_TICK) - sqrtPrice(IN_RANGE.tickLower)), 'token1')
+
+  // Текущий тик внутри: inside = global - outside(lower) - outside(upper)
+  assert.deepEqual(getFees(position), [
+    (50n - 20n - 10n) * FEE_PER_UNIT,
+    (80n - 30n - 20n) * FEE_PER_UNIT
+  ])
+})
+
+test('позиция ниже цены диапазона: только token0, комиссии с учетом tokensOwed', () => {
+  const position = findPosition(positions, BELOW_RANGE.tokenId)
+  const liquidity = Number(LIQUIDITY)
+
+  assert.equal(position.details?.['В диапазоне'], 'нет')
+  assertAmount(position.assets[0]!.amount, liquidity * (1 / sqrtPrice(BELOW_RANGE.tickLower) - 1 / sqrtPrice(BELOW_RANGE.tickUpper)), 'token0')
+  assert.equal(position.assets[1]!.amount, 0n)
+
+  // Текущий тик ниже диапазона: inside = outside(lower) - outside(upper)
+  assert.deepEqual(getFees(position), [
+    BELOW_RANGE.tokensOwed[0] + (10n - 5n - 2n) * FEE_PER_UNIT,
+    (20n - 10n) * FEE_PER_UNIT
+  ])
+})
+
+test('позиция выше цены диапазона: только token1, комиссии с учетом tokensOwed', () => {
+  const position = findPosition(positions, ABOVE_RANGE.tokenId)
+  const liquidity = Number(LIQUIDITY)
+
+  assert.equal(position.details?.['В диапазоне'], 'нет')
+  assert.equal(position.assets[0]!.amount, 0n)
+  assertAmount(position.assets[1]!.amount, liquidity * (sqrtPrice(ABOVE_RANGE.tickUpper) - sqrtPrice(ABOVE_RANGE.tickLower)), 'token1')
+
+  // Текущий тик выше диапазона: inside = outside(upper) - outside(lower)
+  assert.deepEqual(getFees(position), [
+    (20n - 10n) * FEE_PER_UNIT,
+    ABOVE_RANGE.tokensOwed[1] + (30n - 10n) * FEE_PER_UNIT
+  ])
+})
+
+test('стоимость позиции - сумма токенов и комиссий по ценам', () => {
+  for (const position of positions) {
+    const expected = [...position.assets, ...position.fees].reduce((sum, asset) => sum + Number(asset.amountFormatted) * (asset.address.toLowerCase() === TOKEN0 ? 2 : 1), 0)
+    assert.ok(Math.abs(position.usdValue - expected) < 1e-9, `${position.name}: ${position.usdValue} вместо ${expected}`)
+  }
+})
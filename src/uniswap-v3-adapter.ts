@@ -0,0 +1,501 @@
+import { encodeFunctionData, decodeFunctionResult, Address } from 'viem'
+import { Multicall3Service } from './multicall3-service.js'
+import type { PriceProvider } from './price-providers.js'
+import type { TokenMetadataLookup } from './token-metadata-resolver.js'
+import { ERC721_ABI } from './nft-service.js'
+import {
+  PositionAdapter,
+  PositionQuery,
+  DefiPosition,
+  createPosition,
+  valuePositionAssets
+} from './positions.js'
+
+/**
+ * ABI NonfungiblePositionManager (нужные функции)
+ */
+export const UNISWAP_V3_POSITION_MANAGER_ABI = [
+  ...ERC721_ABI,
+  {
+    'inputs': [],
+    'name': 'factory',
+    'outputs': [
+      { 'internalType': 'address', 'name': '', 'type': 'address' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [
+      { 'internalType': 'uint256', 'name': 'tokenId', 'type': 'uint256' }
+    ],
+    'name': 'positions',
+    'outputs': [
+      { 'internalType': 'uint96', 'name': 'nonce', 'type': 'uint96' },
+      { 'internalType': 'address', 'name': 'operator', 'type': 'address' },
+      { 'internalType': 'address', 'name': 'token0', 'type': 'address' },
+      { 'internalType': 'address', 'name': 'token1', 'type': 'address' },
+      { 'internalType': 'uint24', 'name': 'fee', 'type': 'uint24' },
+      { 'internalType': 'int24', 'name': 'tickLower', 'type': 'int24' },
+      { 'internalType': 'int24', 'name': 'tickUpper', 'type': 'int24' },
+      { 'internalType': 'uint128', 'name': 'liquidity', 'type': 'uint128' },
+      { 'internalType': 'uint256', 'name': 'feeGrowthInside0LastX128', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'feeGrowthInside1LastX128', 'type': 'uint256' },
+      { 'internalType': 'uint128', 'name': 'tokensOwed0', 'type': 'uint128' },
+      { 'internalType': 'uint128', 'name': 'tokensOwed1', 'type': 'uint128' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * ABI фабрики Uniswap V3
+ */
+export const UNISWAP_V3_FACTORY_ABI = [
+  {
+    'inputs': [
+      { 'internalType': 'address', 'name': 'tokenA', 'type': 'address' },
+      { 'internalType': 'address', 'name': 'tokenB', 'type': 'address' },
+      { 'internalType': 'uint24', 'name': 'fee', 'type': 'uint24' }
+    ],
+    'name': 'getPool',
+    'outputs': [
+      { 'internalType': 'address', 'name': 'pool', 'type': 'address' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+/**
+ * ABI пула Uniswap V3 (нужные функции)
+ */
+export const UNISWAP_V3_POOL_ABI = [
+  {
+    'inputs': [],
+    'name': 'slot0',
+    'outputs': [
+      { 'internalType': 'uint160', 'name': 'sqrtPriceX96', 'type': 'uint160' },
+      { 'internalType': 'int24', 'name': 'tick', 'type': 'int24' },
+      { 'internalType': 'uint16', 'name': 'observationIndex', 'type': 'uint16' },
+      { 'internalType': 'uint16', 'name': 'observationCardinality', 'type': 'uint16' },
+      { 'internalType': 'uint16', 'name': 'observationCardinalityNext', 'type': 'uint16' },
+      { 'internalType': 'uint8', 'name': 'feeProtocol', 'type': 'uint8' },
+      { 'internalType': 'bool', 'name': 'unlocked', 'type': 'bool' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [],
+    'name': 'feeGrowthGlobal0X128',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': '', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [],
+    'name': 'feeGrowthGlobal1X128',
+    'outputs': [
+      { 'internalType': 'uint256', 'name': '', 'type': 'uint256' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  },
+  {
+    'inputs': [
+      { 'internalType': 'int24', 'name': 'tick', 'type': 'int24' }
+    ],
+    'name': 'ticks',
+    'outputs': [
+      { 'internalType': 'uint128', 'name': 'liquidityGross', 'type': 'uint128' },
+      { 'internalType': 'int128', 'name': 'liquidityNet', 'type': 'int128' },
+      { 'internalType': 'uint256', 'name': 'feeGrowthOutside0X128', 'type': 'uint256' },
+      { 'internalType': 'uint256', 'name': 'feeGrowthOutside1X128', 'type': 'uint256' },
+      { 'internalType': 'int56', 'name': 'tickCumulativeOutside', 'type': 'int56' },
+      { 'internalType': 'uint160', 'name': 'secondsPerLiquidityOutsideX128', 'type': 'uint160' },
+      { 'internalType': 'uint32', 'name': 'secondsOutside', 'type': 'uint32' },
+      { 'internalType': 'bool', 'name': 'initialized', 'type': 'bool' }
+    ],
+    'stateMutability': 'view',
+    'type': 'function'
+  }
+] as const
+
+const Q96 = 1n << 96n
+const Q128 = 1n << 128n
+const UINT256 = 1n << 256n
+const MAX_TICK = 887272
+
+/**
+ * Множители TickMath.getSqrtRatioAtTick (sqrt(1.0001^-2^i) в Q128.128)
+ */
+const TICK_RATIOS: Array<[number, bigint]> = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n]
+]
+
+/**
+ * sqrt(1.0001^tick) в формате Q64.96 (как TickMath.getSqrtRatioAtTick в Uniswap V3)
+ */
+export function getSqrtRatioAtTick (tick: number): bigint {
+  const absTick = Math.abs(tick)
+  if (!Number.isInteger(tick) || absTick > MAX_TICK) {
+    throw new Error(`Тик ${tick} вне допустимого диапазона`)
+  }
+
+  let ratio = (absTick & 0x1) !== 0 ? 0xfffcb933bd6fad37aa2d162d1a594001n : Q128
+  for (const [bit, multiplier] of TICK_RATIOS) {
+    if ((absTick & bit) !== 0) {
+      ratio = (ratio * multiplier) >> 128n
+    }
+  }
+  if (tick > 0) {
+    ratio = (UINT256 - 1n) / ratio
+  }
+
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n)
+}
+
+/**
+ * Количество токенов позиции при текущей цене пула (как LiquidityAmounts.getAmountsForLiquidity)
+ */
+export function getAmountsForLiquidity (
+  sqrtPriceX96: bigint,
+  currentTick: number,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const sqrtLower = getSqrtRatioAtTick(tickLower)
+  const sqrtUpper = getSqrtRatioAtTick(tickUpper)
+  const amount0 = (from: bigint): bigint => liquidity * Q96 * (sqrtUpper - from) / sqrtUpper / from
+  const amount1 = (to: bigint): bigint => liquidity * (to - sqrtLower) / Q96
+
+  if (currentTick < tickLower) {
+    return { amount0: amount0(sqrtLower), amount1: 0n }
+  }
+  if (currentTick < tickUpper) {
+    return { amount0: amount0(sqrtPriceX96), amount1: amount1(sqrtPriceX96) }
+  }
+  return { amount0: 0n, amount1: amount1(sqrtUpper) }
+}
+
+/**
+ * Рост комиссий внутри диапазона тиков (по модулю 2^256, как в Tick.getFeeGrowthInside)
+ */
+function getFeeGrowthInside (
+  currentTick: number,
+  tickLower: number,
+  tickUpper: number,
+  feeGrowthGlobal: bigint,
+  lowerOutside: bigint,
+  upperOutside: bigint
+): bigint {
+  const below = currentTick >= tickLower ? lowerOutside : feeGrowthGlobal - lowerOutside
+  const above = currentTick < tickUpper ? upperOutside : feeGrowthGlobal - upperOutside
+  return ((feeGrowthGlobal - below - above) % UINT256 + UINT256) % UINT256
+}
+
+/**
+ * Позиция из NonfungiblePositionManager.positions
+ */
+interface RawPosition {
+  tokenId: bigint
+  token0: Address
+  token1: Address
+  fee: number
+  tickLower: number
+  tickUpper: number
+  liquidity: bigint
+  feeGrowthInside0LastX128: bigint
+  feeGrowthInside1LastX128: bigint
+  tokensOwed0: bigint
+  tokensOwed1: bigint
+}
+
+/**
+ * Состояние пула
+ */
+interface PoolState {
+  sqrtPriceX96: bigint
+  tick: number
+  feeGrowthGlobal0X128: bigint
+  feeGrowthGlobal1X128: bigint
+}
+
+/**
+ * Функция получения адреса NonfungiblePositionManager сети
+ */
+export type PositionManagerLookup = (chainId: number) => string | undefined
+
+/**
+ * Адаптер позиций ликвидности Uniswap V3
+ *
+ * Позиции - NFT NonfungiblePositionManager (адрес задается в реестре сетей,
+ * поле uniswapV3PositionManager). Адаптер перечисляет ID позиций кошелька,
+ * читает их тики и ликвидность, состояние пула (slot0, рост комиссий) и
+ * тиков границ, затем считает количество токенов при текущей цене и
+ * несобранные комиссии. Все чтения идут через Multicall3Service.executeCalls.
+ * Закрытые позиции (без ликвидности и комиссий) пропускаются.
+ */
+export class UniswapV3Adapter implements PositionAdapter {
+  readonly name = 'Uniswap V3'
+  private readonly multicallService: Multicall3Service
+  private readonly resolveMetadata: TokenMetadataLookup
+  private readonly priceProvider: PriceProvider
+  private readonly getPositionManager: PositionManagerLookup
+  private readonly MAX_POSITIONS = 100 // На кошелек в сети
+  private factories = new Map<string, Address>() // Фабрика по адресу менеджера позиций
+
+  constructor (
+    multicallService: Multicall3Service,
+    resolveMetadata: TokenMetadataLookup,
+    priceProvider: PriceProvider,
+    getPositionManager: PositionManagerLookup
+  ) {
+    this.multicallService = multicallService
+    this.resolveMetadata = resolveMetadata
+    this.priceProvider = priceProvider
+    this.getPositionManager = getPositionManager
+  }
+
+  /**
+   * Количество позиций кошелька и адрес фабрики
+   */
+  private async getBalanceAndFactory (
+    chainId: number,
+    manager: Address,
+    walletAddress: Address,
+    blockNumber?: bigint
+  ): Promise<{ balance: bigint; factory: Address | null }> {
+    const cachedFactory = this.factories.get(`${chainId}:${manager.toLowerCase()}`)
+    const results = await this.multicallService.executeCalls(chainId, [
+      { target: manager, allowFailure: true, callData: encodeFunctionData({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'balanceOf', args: [walletAddress] }) },
+      ...(cachedFactory ? [] : [{ target: manager, allowFailure: true, callData: encodeFunctionData({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'factory' }) }])
+    ], blockNumber)
+
+    const balance = this.multicallService.decodeResult(results[0], data => decodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'balanceOf', data }))
+    if (balance === null) {
+      throw new Error(`менеджер позиций ${manager} не ответил на balanceOf`)
+    }
+
+    const factory = cachedFactory ?? this.multicallService.decodeResult(results[1], data => decodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'factory', data }))
+    if (factory) {
+      this.factories.set(`${chainId}:${manager.toLowerCase()}`, factory)
+    }
+    return { balance, factory }
+  }
+
+  /**
+   * Прочитать позиции кошелька (ID через tokenOfOwnerByIndex, затем positions)
+   */
+  private async readPositions (
+    chainId: number,
+    manager: Address,
+    walletAddress: Address,
+    count: number,
+    blockNumber?: bigint
+  ): Promise<RawPosition[]> {
+    const idResults = await this.multicallService.executeCallsInBatches(chainId, Array.from({ length: count }, (_, index) => ({
+      target: manager,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'tokenOfOwnerByIndex', args: [walletAddress, BigInt(index)] })
+    })), blockNumber)
+    const tokenIds = idResults.flatMap(result => {
+      const tokenId = this.multicallService.decodeResult(result, data => decodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'tokenOfOwnerByIndex', data }))
+      return tokenId !== null ? [tokenId] : []
+    })
+
+    const positionResults = await this.multicallService.executeCallsInBatches(chainId, tokenIds.map(tokenId => ({
+      target: manager,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'positions', args: [tokenId] })
+    })), blockNumber)
+
+    return tokenIds.flatMap((tokenId, index) => {
+      const position = this.multicallService.decodeResult(positionResults[index], data => decodeFunctionResult({ abi: UNISWAP_V3_POSITION_MANAGER_ABI, functionName: 'positions', data }))
+      if (!position) {
+        return []
+      }
+      const [, , token0, token1, fee, tickLower, tickUpper, liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128, tokensOwed0, tokensOwed1] = position
+      return [{ tokenId, token0, token1, fee, tickLower, tickUpper, liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128, tokensOwed0, tokensOwed1 }]
+    })
+  }
+
+  /**
+   * Ключ пула позиции
+   */
+  private getPoolKey (position: RawPosition): string {
+    return `${position.token0.toLowerCase()}:${position.token1.toLowerCase()}:${position.fee}`
+  }
+
+  /**
+   * Прочитать адреса и состояние пулов позиций
+   */
+  private async readPools (
+    chainId: number,
+    factory: Address,
+    positions: RawPosition[],
+    blockNumber?: bigint
+  ): Promise<Map<string, { address: Address; state: PoolState }>> {
+    const unique = [...new Map(positions.map(position => [this.getPoolKey(position), position])).values()]
+
+    const poolResults = await this.multicallService.executeCallsInBatches(chainId, unique.map(position => ({
+      target: factory,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: UNISWAP_V3_FACTORY_ABI, functionName: 'getPool', args: [position.token0, position.token1, position.fee] })
+    })), blockNumber)
+    const pools = unique.flatMap((position, index) => {
+      const address = this.multicallService.decodeResult(poolResults[index], data => decodeFunctionResult({ abi: UNISWAP_V3_FACTORY_ABI, functionName: 'getPool', data }))
+      return address ? [{ key: this.getPoolKey(position), address }] : []
+    })
+
+    const stateResults = await this.multicallService.executeCallsInBatches(chainId, pools.flatMap(pool => (['slot0', 'feeGrowthGlobal0X128', 'feeGrowthGlobal1X128'] as const).map(functionName => ({
+      target: pool.address,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: UNISWAP_V3_POOL_ABI, functionName })
+    }))), blockNumber)
+
+    const states = new Map<string, { address: Address; state: PoolState }>()
+    pools.forEach((pool, index) => {
+      const slot0 = this.multicallService.decodeResult(stateResults[index * 3], data => decodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'slot0', data }))
+      const feeGrowthGlobal0X128 = this.multicallService.decodeResult(stateResults[index * 3 + 1], data => decodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'feeGrowthGlobal0X128', data }))
+      const feeGrowthGlobal1X128 = this.multicallService.decodeResult(stateResults[index * 3 + 2], data => decodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'feeGrowthGlobal1X128', data }))
+      if (slot0 && feeGrowthGlobal0X128 !== null && feeGrowthGlobal1X128 !== null) {
+        states.set(pool.key, {
+          address: pool.address,
+          state: { sqrtPriceX96: slot0[0], tick: slot0[1], feeGrowthGlobal0X128, feeGrowthGlobal1X128 }
+        })
+      }
+    })
+    return states
+  }
+
+  /**
+   * Несобранные комиссии позиций (tokensOwed + накопленное с последнего обновления позиции)
+   */
+  private async readUncollectedFees (
+    chainId: number,
+    positions: Array<{ position: RawPosition; pool: { address: Address; state: PoolState } }>,
+    blockNumber?: bigint
+  ): Promise<Array<{ fees0: bigint; fees1: bigint }>> {
+    const tickResults = await this.multicallService.executeCallsInBatches(chainId, positions.flatMap(({ position, pool }) => [position.tickLower, position.tickUpper].map(tick => ({
+      target: pool.address,
+      allowFailure: true,
+      callData: encodeFunctionData({ abi: UNISWAP_V3_POOL_ABI, functionName: 'ticks', args: [tick] })
+    }))), blockNumber)
+
+    return positions.map(({ position, pool }, index) => {
+      const lower = this.multicallService.decodeResult(tickResults[index * 2], data => decodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'ticks', data }))
+      const upper = this.multicallService.decodeResult(tickResults[index * 2 + 1], data => decodeFunctionResult({ abi: UNISWAP_V3_POOL_ABI, functionName: 'ticks', data }))
+      if (!lower || !upper) {
+        // Без тиков границ известны только уже начисленные комиссии
+        return { fees0: position.tokensOwed0, fees1: position.tokensOwed1 }
+      }
+
+      const { tick, feeGrowthGlobal0X128, feeGrowthGlobal1X128 } = pool.state
+      const inside0 = getFeeGrowthInside(tick, position.tickLower, position.tickUpper, feeGrowthGlobal0X128, lower[2], upper[2])
+      const inside1 = getFeeGrowthInside(tick, position.tickLower, position.tickUpper, feeGrowthGlobal1X128, lower[3], upper[3])
+      const delta0 = ((inside0 - position.feeGrowthInside0LastX128) % UINT256 + UINT256) % UINT256
+      const delta1 = ((inside1 - position.feeGrowthInside1LastX128) % UINT256 + UINT256) % UINT256
+
+      return {
+        fees0: position.tokensOwed0 + position.liquidity * delta0 / Q128,
+        fees1: position.tokensOwed1 + position.liquidity * delta1 / Q128
+      }
+    })
+  }
+
+  async getPositions (query: PositionQuery): Promise<DefiPosition[]> {
+    const manager = this.getPositionManager(query.chainId) as Address | undefined
+    if (!manager) {
+      return []
+    }
+
+    const { chainId, walletAddress, blockNumber } = query
+    const { balance, factory } = await this.getBalanceAndFactory(chainId, manager, walletAddress, blockNumber)
+    if (balance === 0n) {
+      return []
+    }
+    if (!factory) {
+      throw new Error(`менеджер позиций ${manager} не вернул адрес фабрики`)
+    }
+    if (balance > BigInt(this.MAX_POSITIONS)) {
+      console.warn(`⚠️ Uniswap V3 в сети ${chainId}: у кошелька ${balance} позиций, проверяются первые ${this.MAX_POSITIONS}`)
+    }
+
+    const count = Number(balance < BigInt(this.MAX_POSITIONS) ? balance : BigInt(this.MAX_POSITIONS))
+    const rawPositions = (await this.readPositions(chainId, manager, walletAddress, count, blockNumber))
+      .filter(position => position.liquidity > 0n || position.tokensOwed0 > 0n || position.tokensOwed1 > 0n)
+    if (rawPositions.length === 0) {
+      return []
+    }
+
+    const pools = await this.readPools(chainId, factory, rawPositions, blockNumber)
+    const withPools = rawPositions.flatMap(position => {
+      const pool = pools.get(this.getPoolKey(position))
+      return pool ? [{ position, pool }] : []
+    })
+    const fees = await this.readUncollectedFees(chainId, withPools, blockNumber)
+    const metadata = await this.resolveMetadata(chainId, [...new Set(withPools.flatMap(({ position }) => [position.token0.toLowerCase(), position.token1.toLowerCase()]))])
+
+    const result: DefiPosition[] = []
+    for (const [index, { position, pool }] of withPools.entries()) {
+      const metadata0 = metadata.get(position.token0.toLowerCase())
+      const metadata1 = metadata.get(position.token1.toLowerCase())
+      if (!metadata0 || !metadata1) {
+        console.warn(`⚠️ Uniswap V3 #${position.tokenId} в сети ${chainId}: нет метаданных токенов пула`)
+        continue
+      }
+
+      const { amount0, amount1 } = getAmountsForLiquidity(pool.state.sqrtPriceX96, pool.state.tick, position.tickLower, position.tickUpper, position.liquidity)
+      const { fees0, fees1 } = fees[index]!
+      const valued = await valuePositionAssets(this.priceProvider, chainId, [
+        { address: position.token0, metadata: metadata0, amount: amount0 },
+        { address: position.token1, metadata: metadata1, amount: amount1 },
+        { address: position.token0, metadata: metadata0, amount: fees0 },
+        { address: position.token1, metadata: metadata1, amount: fees1 }
+      ])
+      const inRange = pool.state.tick >= position.tickLower && pool.state.tick < position.tickUpper
+
+      result.push(createPosition({
+        protocol: this.name,
+        type: 'liquidity',
+        name: `${metadata0.symbol}/${metadata1.symbol} ${position.fee / 10000}% #${position.tokenId}`,
+        contractAddress: manager,
+        assets: valued.slice(0, 2),
+        fees: valued.slice(2).filter(asset => asset.amount > 0n),
+        details: {
+          'Пул': pool.address,
+          'Диапазон тиков': `${position.tickLower}..${position.tickUpper}`,
+          'Текущий тик': pool.state.tick.toString(),
+          'В диапазоне': inRange ? 'да' : 'нет',
+          'Ликвидность': position.liquidity.toString()
+        }
+      }))
+    }
+
+    return result
+  }
+}